@@ -0,0 +1,176 @@
+import fs from 'node:fs';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { FathomClient } from './fathom-client.js';
+import { createLogger } from './logger.js';
+import { MeetingMatch, matchUsesTeams, meetingMatchSchema, meetingMatches } from './meeting-match.js';
+import { TeamDirectory } from './team-directory.js';
+import { FathomMeeting } from './types.js';
+
+const log = createLogger('ACCESS');
+
+// A decision about a meeting looked up by recording ID is reused for this long
+const DECISION_TTL_MS = 5 * 60 * 1000;
+
+const policySchema = z.object({
+  // Visible meetings match at least one of these; when empty, every meeting not denied
+  allow: z.array(meetingMatchSchema).default([]),
+  // Hidden meetings match any of these, even when also allowed
+  deny: z.array(meetingMatchSchema).default([])
+}).strict();
+
+// Which callers a policy applies to. Every condition given must hold.
+const assignmentSchema = z.object({
+  // OAuth client ID; each MCP_AUTH_STATIC_TOKENS token is its own client, static-1, static-2, ...
+  client_id: z.string().optional(),
+  // JWT subject
+  subject: z.string().optional(),
+  // A scope the caller's token carries
+  scope: z.string().optional(),
+  policy: z.string()
+}).strict().refine(assignment => assignment.client_id || assignment.subject || assignment.scope, {
+  message: 'An assignment needs a client_id, subject or scope'
+});
+
+const accessPolicySchema = z.object({
+  policies: z.record(policySchema),
+  // Checked in order; the first that applies to the caller wins
+  assignments: z.array(assignmentSchema).default([]),
+  // For callers no assignment applies to, including stdio. Without one they see every meeting.
+  default_policy: z.string().optional()
+}).strict();
+
+export type AccessPolicy = z.infer<typeof policySchema>;
+export type AccessPolicyConfig = z.infer<typeof accessPolicySchema>;
+
+export function parseAccessPolicyConfig(raw: unknown): AccessPolicyConfig {
+  const result = accessPolicySchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid access policy config at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  const config = result.data;
+  const referenced = [
+    ...config.assignments.map((assignment, index) => [`assignments.${index}.policy`, assignment.policy]),
+    ...(config.default_policy ? [['default_policy', config.default_policy]] : [])
+  ];
+  for (const [location, name] of referenced) {
+    if (!config.policies[name]) {
+      throw new Error(`Invalid access policy config at ${location}: unknown policy "${name}"`);
+    }
+  }
+  return config;
+}
+
+// Load the policies from FATHOM_ACCESS_POLICY_FILE; undefined lets every caller see every meeting
+export function createAccessPoliciesFromEnv(): AccessPolicies | undefined {
+  const policyFile = process.env.FATHOM_ACCESS_POLICY_FILE;
+  if (!policyFile) {
+    return undefined;
+  }
+  const config = parseAccessPolicyConfig(JSON.parse(fs.readFileSync(policyFile, 'utf8')));
+  log.info(`Loaded ${Object.keys(config.policies).length} policies and ${config.assignments.length} assignments from ${policyFile}`);
+  return new AccessPolicies(config);
+}
+
+export function meetingAllowed(meeting: FathomMeeting, policy: AccessPolicy, recorderTeams: string[] = []): boolean {
+  if (policy.allow.length > 0 && !policy.allow.some(match => meetingMatches(meeting, match, recorderTeams))) {
+    return false;
+  }
+  return !policy.deny.some(match => meetingMatches(meeting, match, recorderTeams));
+}
+
+// Policy sets from FATHOM_ACCESS_POLICY_FILE, shared by every session
+export class AccessPolicies {
+  private teamDirectories = new Map<string, TeamDirectory>();
+
+  constructor(private config: AccessPolicyConfig) {}
+
+  // The policy name for a caller; undefined when they aren't restricted
+  policyFor(auth?: AuthInfo): string | undefined {
+    const assignment = auth && this.config.assignments.find(assignment =>
+      (!assignment.client_id || assignment.client_id === auth.clientId) &&
+      (!assignment.subject || assignment.subject === auth.extra?.sub) &&
+      (!assignment.scope || auth.scopes.includes(assignment.scope)));
+    return assignment?.policy ?? this.config.default_policy;
+  }
+
+  // Access for one session. accountId keeps team directories apart when several Fathom
+  // accounts share the server.
+  forCaller(auth: AuthInfo | undefined, fathomClient: FathomClient, accountId: string = 'default'): MeetingAccess | undefined {
+    const name = this.policyFor(auth);
+    if (!name) {
+      return undefined;
+    }
+
+    let teamDirectory = this.teamDirectories.get(accountId);
+    if (!teamDirectory) {
+      teamDirectory = new TeamDirectory(fathomClient, 'ACCESS');
+      this.teamDirectories.set(accountId, teamDirectory);
+    }
+    return new MeetingAccess(name, this.config.policies[name], fathomClient, teamDirectory);
+  }
+}
+
+// One caller's view of the account. Meetings the policy hides are treated as if they didn't
+// exist, so a denial can't be told apart from a wrong recording ID.
+export class MeetingAccess {
+  private decisions = new Map<string, { decidedAt: number; allowed: Promise<boolean> }>();
+
+  constructor(
+    readonly policyName: string,
+    private policy: AccessPolicy,
+    private fathomClient: FathomClient,
+    private teamDirectory: TeamDirectory
+  ) {}
+
+  // A synchronous check, for filtering lists and search candidates. Loads the team directory
+  // first when the policy looks at teams, and denies everything while it can't be loaded:
+  // without it a deny-by-team rule would match nothing.
+  async predicate(): Promise<(meeting: FathomMeeting) => boolean> {
+    const matches: MeetingMatch[] = [...this.policy.allow, ...this.policy.deny];
+    const teamsByEmail = matches.some(matchUsesTeams) ? await this.teamDirectory.load() : undefined;
+    if (teamsByEmail && !this.teamDirectory.available) {
+      log.warn(`Team membership is unavailable, so policy ${this.policyName} denies every meeting`);
+      return () => false;
+    }
+    return meeting => meetingAllowed(meeting, this.policy,
+      (meeting.recorded_by && teamsByEmail?.get(meeting.recorded_by.toLowerCase())) || []);
+  }
+
+  async allows(meeting: FathomMeeting): Promise<boolean> {
+    return (await this.predicate())(meeting);
+  }
+
+  async filter<T extends FathomMeeting>(meetings: T[]): Promise<T[]> {
+    return meetings.filter(await this.predicate());
+  }
+
+  // For tools that take a recording ID. Pass the meeting when the caller already has it (say,
+  // from the webhook receiver); otherwise it's looked up, and an unknown meeting is denied.
+  allowsRecording(recordingId: string, meeting?: FathomMeeting): Promise<boolean> {
+    if (meeting) {
+      return this.allows(meeting);
+    }
+    const cached = this.decisions.get(recordingId);
+    if (cached && Date.now() - cached.decidedAt < DECISION_TTL_MS) {
+      return cached.allowed;
+    }
+
+    const allowed = this.fathomClient.getMeeting(recordingId).then(
+      found => {
+        if (found) return this.allows(found);
+        // It may not have synced yet; look again next time
+        this.decisions.delete(recordingId);
+        return false;
+      },
+      error => {
+        log.warn(`Could not look up recording ${recordingId}, denying`, { error });
+        this.decisions.delete(recordingId);
+        return false;
+      });
+    this.decisions.set(recordingId, { decidedAt: Date.now(), allowed });
+    return allowed;
+  }
+}
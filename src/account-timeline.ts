@@ -0,0 +1,154 @@
+import { ActionItem } from './action-items.js';
+import { FathomCrmCompany, FathomCrmDeal, FathomMeeting, actionItemText } from './types.js';
+
+export interface AccountQuery {
+  // Company email domain, e.g. acme.com
+  domain?: string;
+  // CRM company or deal name, or its record URL
+  crm_account?: string;
+}
+
+export interface AccountAttendee {
+  email: string;
+  name?: string;
+  meetings: number;
+  last_met?: string;
+}
+
+export interface AccountTimelineEntry {
+  date: string;
+  title: string;
+  recording_id?: string;
+  url?: string;
+  meeting_type: FathomMeeting['meeting_type'];
+  recorded_by: string;
+  their_attendees: string[];
+  our_attendees: string[];
+  summary?: string;
+  action_items: string[];
+}
+
+export interface AccountTimeline {
+  account: {
+    domain?: string;
+    crm_account?: string;
+    crm_companies: FathomCrmCompany[];
+    crm_deals: FathomCrmDeal[];
+  };
+  meetings_found: number;
+  first_meeting?: string;
+  last_meeting?: string;
+  their_attendees: AccountAttendee[];
+  our_attendees: AccountAttendee[];
+  timeline: AccountTimelineEntry[];
+}
+
+function emailDomain(email: string): string {
+  return email.split('@')[1]?.toLowerCase() ?? '';
+}
+
+function sameRecord(value: string, record: { name: string; record_url?: string }): boolean {
+  const wanted = value.trim().toLowerCase();
+  return record.name?.toLowerCase() === wanted || record.record_url?.toLowerCase() === wanted;
+}
+
+// Does the meeting involve the account, by attendee domain or by a linked CRM company or deal?
+export function meetingMatchesAccount(meeting: FathomMeeting, query: AccountQuery): boolean {
+  const domain = query.domain?.toLowerCase().replace(/^@/, '');
+  if (domain && (meeting.calendar_invitees || []).some(email => emailDomain(email) === domain)) {
+    return true;
+  }
+
+  const crm = meeting.crm_matches;
+  if (query.crm_account && crm) {
+    return [...(crm.companies || []), ...(crm.deals || [])].some(record => sameRecord(query.crm_account!, record));
+  }
+  return false;
+}
+
+// Attendees from the account's side: the queried domain, CRM contacts, or anyone outside
+// the recorder's own domain
+function theirAttendees(meeting: FathomMeeting, query: AccountQuery): string[] {
+  const invitees = meeting.calendar_invitees || [];
+  const domain = query.domain?.toLowerCase().replace(/^@/, '');
+  if (domain) {
+    return invitees.filter(email => emailDomain(email) === domain);
+  }
+
+  const contacts = new Set((meeting.crm_matches?.contacts || []).map(contact => contact.email?.toLowerCase()));
+  const ourDomain = emailDomain(meeting.recorded_by || '');
+  return invitees.filter(email => contacts.has(email.toLowerCase()) || (!!ourDomain && emailDomain(email) !== ourDomain));
+}
+
+function tallyAttendees(entries: { emails: string[]; date: string }[], names: Map<string, string>): AccountAttendee[] {
+  const tally = new Map<string, AccountAttendee>();
+  for (const { emails, date } of entries) {
+    for (const email of new Set(emails.map(value => value.toLowerCase()))) {
+      const attendee = tally.get(email) ?? { email, name: names.get(email), meetings: 0 };
+      attendee.meetings++;
+      if (!attendee.last_met || date > attendee.last_met) {
+        attendee.last_met = date;
+      }
+      tally.set(email, attendee);
+    }
+  }
+  return [...tally.values()].sort((a, b) => b.meetings - a.meetings);
+}
+
+function uniqueRecords<T extends { name: string; record_url?: string }>(records: T[]): T[] {
+  return [...new Map(records.map(record => [record.record_url || record.name, record])).values()];
+}
+
+// Chronological history of the meetings with one account. Tracked action items, when given,
+// replace each meeting's raw list so the timeline only shows what is still open.
+export function buildAccountTimeline(
+  meetings: FathomMeeting[],
+  query: AccountQuery,
+  openActionItems?: ActionItem[]
+): AccountTimeline {
+  const matched = meetings
+    .filter(meeting => meetingMatchesAccount(meeting, query))
+    .sort((a, b) => (a.scheduled_start_time || a.created_at).localeCompare(b.scheduled_start_time || b.created_at));
+
+  const contactNames = new Map<string, string>();
+  matched.forEach(meeting => meeting.crm_matches?.contacts?.forEach(contact => {
+    if (contact.email && contact.name) contactNames.set(contact.email.toLowerCase(), contact.name);
+  }));
+
+  const timeline = matched.map(meeting => {
+    const theirs = theirAttendees(meeting, query);
+    const theirSet = new Set(theirs.map(email => email.toLowerCase()));
+    const recordingId = meeting.recording_id ? String(meeting.recording_id) : undefined;
+    const actionItems = openActionItems
+      ? openActionItems.filter(item => item.recording_id === recordingId).map(item => item.text)
+      : (meeting.action_items || []).map(actionItemText);
+
+    return {
+      date: meeting.scheduled_start_time || meeting.created_at,
+      title: meeting.title || meeting.meeting_title,
+      recording_id: recordingId,
+      url: meeting.share_url || meeting.url,
+      meeting_type: meeting.meeting_type,
+      recorded_by: meeting.recorded_by,
+      their_attendees: theirs,
+      our_attendees: (meeting.calendar_invitees || []).filter(email => !theirSet.has(email.toLowerCase())),
+      summary: meeting.default_summary,
+      action_items: actionItems.filter(Boolean)
+    };
+  });
+
+  return {
+    account: {
+      domain: query.domain,
+      crm_account: query.crm_account,
+      crm_companies: uniqueRecords(matched.flatMap(meeting => meeting.crm_matches?.companies || [])),
+      crm_deals: uniqueRecords(matched.flatMap(meeting => meeting.crm_matches?.deals || []))
+    },
+    meetings_found: timeline.length,
+    first_meeting: timeline[0]?.date,
+    last_meeting: timeline[timeline.length - 1]?.date,
+    their_attendees: tallyAttendees(timeline.map(entry => ({ emails: entry.their_attendees, date: entry.date })), contactNames),
+    our_attendees: tallyAttendees(timeline.map(entry => ({ emails: entry.our_attendees, date: entry.date })), new Map()),
+    timeline
+  };
+}
@@ -0,0 +1,319 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { AtomicFileWriter } from './atomic-file-writer.js';
+import { FathomClient } from './fathom-client.js';
+import { createLogger } from './logger.js';
+import { MeetingStore } from './meeting-store.js';
+import { TeamDirectory } from './team-directory.js';
+import { FathomMeeting, actionItemText } from './types.js';
+
+const log = createLogger('ACTION_ITEMS');
+
+export type ActionItemStatus = 'open' | 'done';
+
+export interface ActionItem {
+  id: string;
+  text: string;
+  status: ActionItemStatus;
+  owner_email?: string;
+  owner_name?: string;
+  // The phrase the deadline came from ("by Friday") and the date it resolves to
+  due_hint?: string;
+  due_date?: string;
+  notes?: string;
+  recording_id: string;
+  meeting_title: string;
+  meeting_date: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+export interface ActionItemFilters {
+  status?: ActionItemStatus | 'all';
+  owner?: string;
+  recording_id?: string;
+  meeting_after?: string;
+  meeting_before?: string;
+  due_before?: string;
+}
+
+export interface ActionItemUpdate {
+  status?: ActionItemStatus;
+  owner_email?: string;
+  owner_name?: string;
+  due_date?: string;
+  notes?: string;
+}
+
+export interface Person {
+  email: string;
+  name?: string;
+}
+
+interface ActionItemsFile {
+  items: Record<string, ActionItem>;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DUE_PATTERN = new RegExp(
+  '\\b(?:by|before|due(?: on| by)?|until|no later than)\\s+(' +
+  '(?:next |this )?(?:mon|tues|wednes|thurs|fri|satur|sun)day|tomorrow|today|tonight|' +
+  'end of (?:the )?(?:day|week|month)|eod|eow|eom|next week|\\d{4}-\\d{2}-\\d{2}|' +
+  '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.? \\d{1,2}(?:st|nd|rd|th)?' +
+  ')\\b', 'i');
+
+// The tracker lives next to the meeting store, so there is none when the store is disabled
+export function createActionItemTracker(meetingStore?: MeetingStore): ActionItemTracker | undefined {
+  return meetingStore ? new ActionItemTracker(meetingStore.directory) : undefined;
+}
+
+// Persistent list of action items extracted from every synced meeting, kept in
+// <dataDir>/action-items.json next to the meeting store. Status, owner and due date can be
+// edited; later syncs only add items they haven't seen.
+export class ActionItemTracker {
+  private items = new Map<string, ActionItem>();
+  private loaded?: Promise<void>;
+  private writer = new AtomicFileWriter();
+  // Team members are candidate owners along with each meeting's invitees
+  private teams?: TeamDirectory;
+
+  constructor(private dataDir: string) {}
+
+  // Pull meetings through the client (which syncs the local store) and extract new items
+  async sync(fathomClient: FathomClient): Promise<{ added: number; total: number }> {
+    const meetings = await fathomClient.collectMeetings({});
+    this.teams ??= new TeamDirectory(fathomClient, 'ACTION_ITEMS');
+    const added = await this.addFromMeetings(meetings.items, await this.teams.members());
+    if (added > 0) {
+      log.info(`Extracted ${added} new action items from ${meetings.items.length} meetings`);
+    }
+    return { added, total: this.items.size };
+  }
+
+  async addFromMeetings(meetings: FathomMeeting[], people: Person[] = []): Promise<number> {
+    await this.load();
+    const now = new Date().toISOString();
+    let added = 0;
+    let changed = false;
+
+    for (const meeting of meetings) {
+      for (const extracted of extractActionItems(meeting, people)) {
+        const existing = this.items.get(extracted.id);
+        if (!existing) {
+          this.items.set(extracted.id, { ...extracted, created_at: now, updated_at: now });
+          added++;
+        } else if (extracted.status === 'done' && existing.status === 'open') {
+          // Fathom marked it complete; local edits otherwise win
+          this.items.set(existing.id, { ...existing, status: 'done', completed_at: now, updated_at: now });
+          changed = true;
+        }
+      }
+    }
+
+    if (added > 0 || changed) {
+      await this.persist();
+    }
+    return added;
+  }
+
+  async list(filters: ActionItemFilters = {}): Promise<ActionItem[]> {
+    await this.load();
+    const status = filters.status ?? 'open';
+    const owner = filters.owner?.toLowerCase();
+
+    return [...this.items.values()]
+      .filter(item => status === 'all' || item.status === status)
+      .filter(item => !owner ||
+        item.owner_email?.toLowerCase() === owner ||
+        !!item.owner_name?.toLowerCase().includes(owner))
+      .filter(item => !filters.recording_id || item.recording_id === filters.recording_id)
+      .filter(item => !filters.meeting_after || Date.parse(item.meeting_date) > Date.parse(filters.meeting_after))
+      .filter(item => !filters.meeting_before || Date.parse(item.meeting_date) < Date.parse(filters.meeting_before))
+      .filter(item => !filters.due_before || (!!item.due_date && item.due_date < filters.due_before))
+      .map(item => ({ ...item }))
+      .sort((a, b) => (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999') || b.meeting_date.localeCompare(a.meeting_date));
+  }
+
+  async update(id: string, changes: ActionItemUpdate): Promise<ActionItem> {
+    await this.load();
+    const item = this.items.get(id);
+    if (!item) {
+      throw new Error(`Action item not found: ${id}`);
+    }
+
+    const now = new Date().toISOString();
+    const updated: ActionItem = { ...item, ...definedFields(changes), updated_at: now };
+    if (changes.status === 'done' && item.status !== 'done') {
+      updated.completed_at = now;
+    } else if (changes.status === 'open') {
+      delete updated.completed_at;
+    }
+
+    this.items.set(id, updated);
+    await this.persist();
+    return { ...updated };
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const content = await fs.readFile(path.join(this.dataDir, 'action-items.json'), 'utf8');
+          const file = JSON.parse(content) as ActionItemsFile;
+          this.items = new Map(Object.entries(file.items || {}));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            log.warn('Could not read action-items.json, starting empty', { error });
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const content = JSON.stringify({ items: Object.fromEntries(this.items) } satisfies ActionItemsFile);
+    return this.writer.write(path.join(this.dataDir, 'action-items.json'), content);
+  }
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
+
+export function extractActionItems(meeting: FathomMeeting, people: Person[] = []): Omit<ActionItem, 'created_at' | 'updated_at'>[] {
+  const recordingId = meeting.recording_id ? String(meeting.recording_id) : undefined;
+  if (!recordingId || !Array.isArray(meeting.action_items)) {
+    return [];
+  }
+
+  const meetingDate = meeting.scheduled_start_time || meeting.created_at;
+  const candidates = [
+    ...(meeting.calendar_invitees || []).map(email => ({ email })),
+    ...people
+  ];
+
+  return meeting.action_items.flatMap(item => {
+    const text = actionItemText(item);
+    if (!text) {
+      return [];
+    }
+    const details = typeof item === 'string' ? undefined : item;
+
+    const assignee = details?.assignee?.email
+      ? { email: details.assignee.email, name: details.assignee.name || undefined }
+      : matchOwner(text, candidates, meeting.calendar_invitees || []);
+    const dueHint = DUE_PATTERN.exec(text)?.[1];
+
+    return [{
+      id: `${recordingId}:${createHash('sha1').update(text.toLowerCase()).digest('hex').slice(0, 8)}`,
+      text,
+      status: details?.completed ? 'done' as const : 'open' as const,
+      owner_email: assignee?.email,
+      owner_name: assignee?.name,
+      due_hint: dueHint,
+      due_date: dueHint ? resolveDueDate(dueHint, meetingDate) : undefined,
+      recording_id: recordingId,
+      meeting_title: meeting.title || meeting.meeting_title,
+      meeting_date: meetingDate
+    }];
+  });
+}
+
+function personNames(person: Person): { full?: string; first?: string } {
+  const name = person.name?.trim() || person.email.split('@')[0].split(/[._-]+/).join(' ');
+  const parts = name.toLowerCase().split(/\s+/).filter(Boolean);
+  return { full: parts.length > 1 ? parts.join(' ') : undefined, first: parts[0] };
+}
+
+// Match "Jane Doe will…", "Jane: send the deck", "@jane", "owner: Jane" against the candidates.
+// A first name alone only counts where an owner is expected, and only when it is unambiguous;
+// meeting invitees win over other team members.
+export function matchOwner(text: string, candidates: Person[], invitees: string[] = []): Person | undefined {
+  const lower = text.toLowerCase();
+  const people = [...new Map(candidates.map(person => [person.email.toLowerCase(), person])).values()];
+  const named = (person: Person) => {
+    const directoryName = candidates.find(candidate => candidate.email.toLowerCase() === person.email.toLowerCase() && candidate.name)?.name;
+    return { email: person.email, name: directoryName ?? person.name };
+  };
+
+  const fullMatches = people.filter(person => {
+    const { full } = personNames(named(person));
+    return full && new RegExp(`\\b${escapeRegExp(full)}\\b`).test(lower);
+  });
+  if (fullMatches.length === 1) {
+    return named(fullMatches[0]);
+  }
+
+  const firstMatches = people.filter(person => {
+    const { first } = personNames(named(person));
+    return first && new RegExp(`(^|@|\\b(?:owner|assignee|assigned to)[:\\s]+)${escapeRegExp(first)}\\b`).test(lower);
+  });
+  const invited = firstMatches.filter(person => invitees.some(email => email.toLowerCase() === person.email.toLowerCase()));
+  const pick = invited.length > 0 ? invited : firstMatches;
+  return pick.length === 1 ? named(pick[0]) : undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Turn a due phrase into a YYYY-MM-DD date relative to the meeting it was said in
+export function resolveDueDate(hint: string, meetingDate: string): string | undefined {
+  const base = new Date(meetingDate);
+  if (Number.isNaN(base.getTime())) {
+    return undefined;
+  }
+  const phrase = hint.toLowerCase().replace(/\s+/g, ' ').trim();
+  const addDays = (days: number) => {
+    const date = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate() + days));
+    return date.toISOString().slice(0, 10);
+  };
+  const day = base.getUTCDay();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(phrase)) {
+    return phrase;
+  }
+  if (['today', 'tonight', 'eod', 'end of day', 'end of the day'].includes(phrase)) {
+    return addDays(0);
+  }
+  if (phrase === 'tomorrow') {
+    return addDays(1);
+  }
+  if (['eow', 'end of week', 'end of the week'].includes(phrase)) {
+    return addDays((5 - day + 7) % 7);
+  }
+  if (phrase === 'next week') {
+    return addDays(((1 - day + 7) % 7) || 7);
+  }
+  if (['eom', 'end of month', 'end of the month'].includes(phrase)) {
+    return new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + 1, 0)).toISOString().slice(0, 10);
+  }
+
+  const weekday = /^(next |this )?(\w+day)$/.exec(phrase);
+  if (weekday && WEEKDAYS.includes(weekday[2])) {
+    let days = (WEEKDAYS.indexOf(weekday[2]) - day + 7) % 7 || 7;
+    // "next Friday" said on a Monday means the Friday after this week's
+    const daysToSunday = (7 - day) % 7;
+    if (weekday[1] === 'next ' && days <= daysToSunday) {
+      days += 7;
+    }
+    return addDays(days);
+  }
+
+  const monthDay = /^([a-z]{3})[a-z]*\.? (\d{1,2})/.exec(phrase);
+  if (monthDay && MONTHS.includes(monthDay[1])) {
+    const month = MONTHS.indexOf(monthDay[1]);
+    let year = base.getUTCFullYear();
+    if (Date.UTC(year, month, Number(monthDay[2])) < Date.UTC(year, base.getUTCMonth(), base.getUTCDate())) {
+      year++;
+    }
+    return new Date(Date.UTC(year, month, Number(monthDay[2]))).toISOString().slice(0, 10);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,27 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface AtomicFileWriterOptions {
+  // Permissions for new files, e.g. 0o600 for files holding secrets
+  mode?: number;
+}
+
+// Writes go through a single queue and a temp-file rename so a crash never leaves half a
+// file, and a later write of the same file can't be overtaken by an earlier one
+export class AtomicFileWriter {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private options: AtomicFileWriterOptions = {}) {}
+
+  // Creates the file's directory if needed
+  write(filePath: string, content: string): Promise<void> {
+    const write = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, content, { encoding: 'utf8', mode: this.options.mode });
+      await fs.rename(tmpPath, filePath);
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,265 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { authPrincipal } from './auth.js';
+import { createLogger } from './logger.js';
+import { defaultDataDir } from './meeting-store.js';
+
+const log = createLogger('AUDIT');
+
+const AUDIT_FILE = 'audit.jsonl';
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 10;
+
+// Most entries one query returns
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+// Recording IDs in resource URIs and in the meeting descriptions prompts render
+const TEXT_RECORDING_IDS = [/fathom:\/\/meetings\/([^/\s"?#]+)/g, /^Recording ID: (\S+)$/gm];
+
+export type AuditEventType = 'tool' | 'resource' | 'prompt';
+
+// Who made a request, as known to the MCP server
+export interface AuditCaller {
+  session_id?: string;
+  principal?: string;
+  client_id?: string;
+  account_id?: string;
+}
+
+export interface AuditEntry extends AuditCaller {
+  timestamp: string;
+  type: AuditEventType;
+  // Tool or prompt name, or the resource URI
+  name: string;
+  // As sent by the client, so redaction tokens stay tokens
+  arguments?: unknown;
+  // Meetings whose data was returned
+  recording_ids: string[];
+  result_bytes: number;
+  duration_ms: number;
+  is_error: boolean;
+  error?: string;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  type?: AuditEventType;
+  name?: string;
+  session_id?: string;
+  principal?: string;
+  recording_id?: string;
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  // Rotate once the current file would grow past this (default: 10 MB)
+  maxBytes?: number;
+  // Files kept, counting the current one (default: 10)
+  maxFiles?: number;
+}
+
+// Audit logging is off unless FATHOM_AUDIT_LOG=true or FATHOM_AUDIT_DIR is set; the log
+// then goes to FATHOM_AUDIT_DIR or <FATHOM_DATA_DIR>/audit
+export function createAuditLogFromEnv(): AuditLog | undefined {
+  const directory = process.env.FATHOM_AUDIT_DIR;
+  if (!directory && process.env.FATHOM_AUDIT_LOG !== 'true') {
+    return undefined;
+  }
+  return new AuditLog(directory || path.join(defaultDataDir(), 'audit'), {
+    maxBytes: Number(process.env.FATHOM_AUDIT_MAX_BYTES) || undefined,
+    maxFiles: Number(process.env.FATHOM_AUDIT_MAX_FILES) || undefined
+  });
+}
+
+export function auditCaller(auth: AuthInfo | undefined, sessionId?: string, accountId?: string): AuditCaller {
+  return {
+    session_id: sessionId,
+    principal: authPrincipal(auth),
+    client_id: auth?.clientId,
+    account_id: accountId
+  };
+}
+
+// Recording IDs in a result or arguments: recording_id and recording_ids fields, including those
+// inside JSON and JSON Lines text, and the IDs in TEXT_RECORDING_IDS
+export function recordingIdsIn(value: unknown): string[] {
+  const ids = new Set<string>();
+  const visitJson = (text: string): void => {
+    try {
+      visit(JSON.parse(text));
+    } catch {
+      // Text that only looks like JSON
+    }
+  };
+  const visit = (node: unknown, key?: string): void => {
+    if (typeof node === 'string') {
+      for (const pattern of TEXT_RECORDING_IDS) {
+        for (const match of node.matchAll(pattern)) {
+          ids.add(decodeURIComponent(match[1]));
+        }
+      }
+      if (key === 'recording_id' || key === 'recording_ids') {
+        ids.add(node);
+      } else if (/^\s*[[{]/.test(node)) {
+        if (/^\s*\{[^\n]*\}\r?\n\s*\{/.test(node)) {
+          node.split('\n').filter(line => line.trim()).forEach(visitJson);
+        } else {
+          visitJson(node);
+        }
+      }
+    } else if (typeof node === 'number' && (key === 'recording_id' || key === 'recording_ids')) {
+      ids.add(String(node));
+    } else if (Array.isArray(node)) {
+      node.forEach(item => visit(item, key));
+    } else if (node && typeof node === 'object') {
+      for (const [childKey, child] of Object.entries(node)) {
+        visit(child, childKey);
+      }
+    }
+  };
+  visit(value);
+  return [...ids];
+}
+
+// Tools report failures as a result with isError set and {"error": ...} as its text
+function errorText(result: unknown): string | undefined {
+  const text = (result as { content?: { text?: unknown }[] }).content?.[0]?.text;
+  if (typeof text !== 'string') {
+    return undefined;
+  }
+  try {
+    return String(JSON.parse(text).error ?? text);
+  } catch {
+    return text;
+  }
+}
+
+// Append-only JSON Lines record of every tool call, resource read and prompt served:
+//   <directory>/audit.jsonl      current file
+//   <directory>/audit.jsonl.1    previous file, up to maxFiles - 1 of them
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private currentBytes?: number;
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(private directory: string, options: AuditLogOptions = {}) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxFiles = Math.max(1, options.maxFiles ?? DEFAULT_MAX_FILES);
+  }
+
+  // Run a request and record it, whether it succeeds or throws
+  async track<T>(
+    event: { type: AuditEventType; name: string; arguments?: unknown; caller: AuditCaller },
+    run: () => Promise<T>
+  ): Promise<T> {
+    const started = Date.now();
+    const record = (result: unknown, error?: unknown) => {
+      const isError = error !== undefined || !!(result as { isError?: boolean } | undefined)?.isError;
+      this.record({
+        timestamp: new Date(started).toISOString(),
+        ...event.caller,
+        type: event.type,
+        name: event.name,
+        arguments: event.arguments,
+        // A failed call returned no meeting data, whatever its error text mentions. Plain-text
+        // results such as transcripts don't name their meeting, so the arguments count too.
+        recording_ids: isError ? [] : [...new Set([...recordingIdsIn(event.arguments), ...recordingIdsIn(result)])],
+        result_bytes: result === undefined ? 0 : Buffer.byteLength(JSON.stringify(result)),
+        duration_ms: Date.now() - started,
+        is_error: isError,
+        error: error !== undefined ? (error instanceof Error ? error.message : String(error)) : isError ? errorText(result) : undefined
+      });
+    };
+
+    try {
+      const result = await run();
+      record(result);
+      return result;
+    } catch (error) {
+      record(undefined, error);
+      throw error;
+    }
+  }
+
+  // Queue an entry for writing; failures are logged, never thrown at the request being audited
+  record(entry: AuditEntry): Promise<void> {
+    const write = this.writeQueue.then(() => this.append(`${JSON.stringify(entry)}\n`));
+    this.writeQueue = write.catch(error => {
+      log.warn(`Could not write ${path.join(this.directory, AUDIT_FILE)}`, { error });
+    });
+    return this.writeQueue;
+  }
+
+  // Matching entries, newest first, across the current and rotated files
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writeQueue;
+    const limit = Math.min(query.limit ?? 100, MAX_AUDIT_QUERY_LIMIT);
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+
+    const results: AuditEntry[] = [];
+    for (let index = 0; index < this.maxFiles && results.length < limit; index++) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(this.filePath(index), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+
+      const lines = content.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        const time = Date.parse(entry.timestamp);
+        if (since !== undefined && !(time >= since)) continue;
+        if (until !== undefined && !(time < until)) continue;
+        if (query.type && entry.type !== query.type) continue;
+        if (query.name && entry.name !== query.name) continue;
+        if (query.session_id && entry.session_id !== query.session_id) continue;
+        if (query.principal && entry.principal !== query.principal) continue;
+        if (query.recording_id && !entry.recording_ids.includes(query.recording_id)) continue;
+        results.push(entry);
+        if (results.length >= limit) break;
+      }
+    }
+    return results;
+  }
+
+  private filePath(index: number): string {
+    return path.join(this.directory, index === 0 ? AUDIT_FILE : `${AUDIT_FILE}.${index}`);
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.currentBytes === undefined) {
+      await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+      this.currentBytes = await fs.promises.stat(this.filePath(0)).then(stats => stats.size, () => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.currentBytes > 0 && this.currentBytes + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+    await fs.promises.appendFile(this.filePath(0), line, { encoding: 'utf8', mode: 0o600 });
+    this.currentBytes += bytes;
+  }
+
+  // audit.jsonl -> audit.jsonl.1 -> audit.jsonl.2 ..., dropping the oldest
+  private async rotate(): Promise<void> {
+    await fs.promises.rm(this.filePath(this.maxFiles - 1), { force: true });
+    for (let index = this.maxFiles - 2; index >= 0; index--) {
+      await fs.promises.rename(this.filePath(index), this.filePath(index + 1)).catch(error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      });
+    }
+    this.currentBytes = 0;
+    log.info(`Rotated ${this.filePath(0)}`);
+  }
+}
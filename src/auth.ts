@@ -0,0 +1,271 @@
+import { constants, createHash, createPublicKey, timingSafeEqual, verify, KeyObject, JsonWebKey, SigningOptions, VerifyKeyObjectInput } from 'node:crypto';
+import fs from 'node:fs';
+import { RequestHandler } from 'express';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { OAuthProtectedResourceMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+
+// Scopes granted by the authorization server. Every tool needs READ_SCOPE; tools that
+// change Fathom configuration also need WEBHOOKS_SCOPE, and revealing redacted values PII_SCOPE.
+export const READ_SCOPE = 'fathom:read';
+export const WEBHOOKS_SCOPE = 'fathom:webhooks';
+export const PII_SCOPE = 'fathom:pii';
+export const SUPPORTED_SCOPES = [READ_SCOPE, WEBHOOKS_SCOPE, PII_SCOPE];
+
+// Tokens from a static list never expire on their own; report them as valid for a day so
+// the SDK's expiry check passes
+const STATIC_TOKEN_LIFETIME_SECONDS = 24 * 60 * 60;
+
+// Accepts a fixed set of tokens, for local testing:
+//   MCP_AUTH_STATIC_TOKENS="token-a=fathom:read fathom:webhooks,token-b=fathom:read"
+export class StaticTokenVerifier implements OAuthTokenVerifier {
+  private tokens = new Map<string, { clientId: string; scopes: string[] }>();
+
+  constructor(spec: string) {
+    for (const entry of spec.split(',')) {
+      const [token, scopes = ''] = entry.split('=');
+      if (token?.trim()) {
+        // Each token is its own client, so sessions opened with one can't be used with another
+        this.tokens.set(token.trim(), {
+          clientId: `static-${this.tokens.size + 1}`,
+          scopes: scopes.split(/\s+/).filter(Boolean)
+        });
+      }
+    }
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const entry = this.tokens.get(token);
+    if (!entry) {
+      throw new InvalidTokenError('Unknown access token');
+    }
+    return {
+      token,
+      ...entry,
+      expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME_SECONDS
+    };
+  }
+}
+
+export interface JwtVerifierOptions {
+  issuer: string;
+  // Required `aud` value; should be this server's resource URL (RFC 8707)
+  audience: string;
+  // Allowed clock skew when checking exp/nbf
+  clockToleranceSeconds?: number;
+}
+
+// Decoded JWT parts; nothing in them is trusted until checked, so every field is unknown
+interface JwtHeader {
+  alg?: unknown;
+  kid?: unknown;
+}
+
+interface JwtClaims {
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  sub?: unknown;
+  email?: unknown;
+  client_id?: unknown;
+  azp?: unknown;
+  scope?: unknown;
+  scp?: unknown;
+}
+
+// Verifiers for the JWS algorithms an authorization server is likely to use
+const JWT_ALGORITHMS: Record<string, { hash: string | null; options?: SigningOptions }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  ES256: { hash: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { hash: null }
+};
+
+// Validates JWT access tokens against the public keys in a local JWKS file
+export class JwksTokenVerifier implements OAuthTokenVerifier {
+  private keys = new Map<string, KeyObject>();
+  private clockToleranceSeconds: number;
+
+  constructor(jwks: { keys?: (JsonWebKey & { kid?: string })[] }, private options: JwtVerifierOptions) {
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 60;
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+      this.keys.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+    if (this.keys.size === 0) {
+      throw new Error('JWKS contains no signing keys');
+    }
+  }
+
+  static fromFile(jwksPath: string, options: JwtVerifierOptions): JwksTokenVerifier {
+    return new JwksTokenVerifier(JSON.parse(fs.readFileSync(jwksPath, 'utf8')), options);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      throw new InvalidTokenError('Access token is not a JWT');
+    }
+
+    const header = this.decodeSegment<JwtHeader>(encodedHeader);
+    const algorithm = typeof header.alg === 'string' && Object.hasOwn(JWT_ALGORITHMS, header.alg) ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token algorithm: ${header.alg}`);
+    }
+    const kid = typeof header.kid === 'string' ? header.kid : undefined;
+    const key = this.keys.get(kid ?? '') ?? (this.keys.size === 1 && !kid ? [...this.keys.values()][0] : undefined);
+    if (!key) {
+      throw new InvalidTokenError(`Unknown signing key: ${header.kid}`);
+    }
+
+    let valid = false;
+    const verifyKey: VerifyKeyObjectInput = { key, ...algorithm.options };
+    try {
+      valid = verify(
+        algorithm.hash,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        verifyKey,
+        Buffer.from(encodedSignature, 'base64url')
+      );
+    } catch {
+      // Key type doesn't match the algorithm, or the signature is malformed
+    }
+    if (!valid) {
+      throw new InvalidTokenError('Invalid token signature');
+    }
+
+    const claims = this.decodeSegment<JwtClaims>(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + this.clockToleranceSeconds < now) {
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - this.clockToleranceSeconds > now) {
+      throw new InvalidTokenError('Token is not yet valid');
+    }
+    if (claims.iss !== this.options.issuer) {
+      throw new InvalidTokenError('Token was issued by an unexpected authorization server');
+    }
+    const audiences: unknown[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.options.audience)) {
+      throw new InvalidTokenError('Token was not issued for this server');
+    }
+
+    return {
+      token,
+      clientId: String(claims.client_id ?? claims.azp ?? claims.sub ?? ''),
+      scopes: typeof claims.scope === 'string'
+        ? claims.scope.split(/\s+/).filter(Boolean)
+        : Array.isArray(claims.scp) ? claims.scp.map(String) : [],
+      expiresAt: claims.exp,
+      resource: new URL(this.options.audience),
+      extra: { sub: claims.sub, email: claims.email }
+    };
+  }
+
+  private decodeSegment<T extends JwtHeader | JwtClaims>(segment: string): T {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidTokenError('Access token is malformed');
+    }
+    if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+      throw new InvalidTokenError('Access token is malformed');
+    }
+    return decoded as T;
+  }
+}
+
+export interface AuthConfig {
+  verifier: OAuthTokenVerifier;
+  resourceUrl: URL;
+  authorizationServers: string[];
+}
+
+// Build the auth configuration from the environment; undefined leaves the endpoints open
+//   MCP_RESOURCE_URL         public URL of the /mcp endpoint (token audience)
+//   MCP_AUTH_ISSUER          authorization server issuer URL
+//   MCP_AUTH_JWKS_FILE       JWKS file with the issuer's signing keys
+//   MCP_AUTH_STATIC_TOKENS   fixed token list for testing (see StaticTokenVerifier)
+export function createAuthConfigFromEnv(port: string | number): AuthConfig | undefined {
+  const resourceUrl = new URL(process.env.MCP_RESOURCE_URL || `http://localhost:${port}/mcp`);
+  const issuer = process.env.MCP_AUTH_ISSUER;
+
+  if (process.env.MCP_AUTH_JWKS_FILE) {
+    if (!issuer) {
+      throw new Error('MCP_AUTH_ISSUER is required with MCP_AUTH_JWKS_FILE');
+    }
+    return {
+      verifier: JwksTokenVerifier.fromFile(process.env.MCP_AUTH_JWKS_FILE, {
+        issuer,
+        audience: process.env.MCP_AUTH_AUDIENCE || resourceUrl.href
+      }),
+      resourceUrl,
+      authorizationServers: [issuer]
+    };
+  }
+
+  if (process.env.MCP_AUTH_STATIC_TOKENS) {
+    return {
+      verifier: new StaticTokenVerifier(process.env.MCP_AUTH_STATIC_TOKENS),
+      resourceUrl,
+      authorizationServers: issuer ? [issuer] : []
+    };
+  }
+
+  return undefined;
+}
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728), served from
+// /.well-known/oauth-protected-resource and its path-suffixed form
+export function protectedResourceMetadataHandler(config: AuthConfig): RequestHandler {
+  const metadata: OAuthProtectedResourceMetadata = {
+    resource: config.resourceUrl.href,
+    authorization_servers: config.authorizationServers,
+    scopes_supported: SUPPORTED_SCOPES,
+    bearer_methods_supported: ['header'],
+    resource_name: 'Fathom MCP Server'
+  };
+
+  return (req, res) => {
+    res.status(200).json(metadata);
+  };
+}
+
+// The authenticated caller a session belongs to, so another token can't take it over
+export function authPrincipal(auth?: AuthInfo): string | undefined {
+  if (!auth) {
+    return undefined;
+  }
+  return String(auth.extra?.sub ?? auth.clientId);
+}
+
+// Guards the /admin endpoints with the shared MCP_ADMIN_TOKEN, sent as a bearer token. OAuth
+// tokens are for MCP clients and never grant admin access.
+export function requireAdminToken(adminToken: string): RequestHandler {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  const expected = digest(adminToken);
+
+  return (req, res, next) => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token || !timingSafeEqual(digest(token), expected)) {
+      res.set('WWW-Authenticate', 'Bearer realm="admin"');
+      res.status(401).json({ error: 'A valid admin token is required' });
+      return;
+    }
+    next();
+  };
+}
+
+// A caller without a token has anonymousScopes: only READ_SCOPE unless the transport says
+// otherwise, so an open HTTP server doesn't hand out webhook changes or redacted PII
+export function hasScope(auth: AuthInfo | undefined, scope: string, anonymousScopes: string[] = [READ_SCOPE]): boolean {
+  return (auth ? auth.scopes : anonymousScopes).includes(scope);
+}
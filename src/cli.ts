@@ -0,0 +1,435 @@
+#!/usr/bin/env node
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import dotenv from "dotenv";
+import { createActionItemTracker } from "./action-items.js";
+import { FathomClient } from "./fathom-client.js";
+import { setLogLevel } from "./logger.js";
+import { createMeetingStoreFromEnv } from "./meeting-store.js";
+import { SearchHit } from "./search-index.js";
+import { ToolContext, ToolDefinition, tools } from "./tools.js";
+import { createVectorIndexFromEnv } from "./vector-index.js";
+import { WebhookTestResult, createWebhookRegistry } from "./webhook-registry.js";
+
+dotenv.config();
+
+// One object from the tool's JSON output
+type Row = Record<string, unknown>;
+
+interface Column {
+  header: string;
+  value: (row: Row) => unknown;
+}
+
+// A CLI command is a thin front end to one tool, so the CLI prints exactly what an MCP client would get
+interface CliCommand {
+  path: string[];
+  tool: string;
+  // Tool parameters filled from positional arguments, in order
+  positional?: string[];
+  // The last positional parameter takes all remaining words, e.g. an unquoted search query
+  variadic?: boolean;
+  description: string;
+  // How to render the tool's JSON as a table; commands without one print the tool output as is
+  table?: { rows: string; columns: Column[] };
+}
+
+const MAX_COLUMN_WIDTH = 60;
+
+const shortDate = (value: unknown) => typeof value === 'string' ? value.slice(0, 16).replace('T', ' ') : value;
+
+function bestMatch(hits: SearchHit[] | undefined): string | undefined {
+  const hit = hits?.[0];
+  return hit && `${hit.timestamp ? `[${hit.timestamp}] ` : ''}${hit.speaker ? `${hit.speaker}: ` : ''}${hit.snippet.replace(/\*\*/g, '')}`;
+}
+
+function lastTest(result: WebhookTestResult | undefined): string | undefined {
+  return result && `${result.ok ? 'ok' : 'failed'} ${shortDate(result.tested_at)}`;
+}
+
+const commands: CliCommand[] = [
+  {
+    path: ['meetings', 'list'],
+    tool: 'list_meetings',
+    description: 'List meetings, newest first',
+    table: {
+      rows: 'meetings',
+      columns: [
+        { header: 'date', value: row => shortDate(row.date) },
+        { header: 'title', value: row => row.title },
+        { header: 'recording id', value: row => row.recording_id },
+        { header: 'recorded by', value: row => row.recorded_by },
+        { header: 'attendees', value: row => Array.isArray(row.attendees) ? row.attendees.length : 0 }
+      ]
+    }
+  },
+  {
+    path: ['search'],
+    tool: 'search_meetings',
+    positional: ['search_term'],
+    variadic: true,
+    description: 'Search titles, summaries, action items and transcripts',
+    table: {
+      rows: 'meetings',
+      columns: [
+        { header: 'score', value: row => row.score },
+        { header: 'date', value: row => shortDate(row.date) },
+        { header: 'title', value: row => row.title },
+        { header: 'recording id', value: row => row.recording_id },
+        { header: 'best match', value: row => bestMatch(row.hits as SearchHit[] | undefined) }
+      ]
+    }
+  },
+  {
+    path: ['transcript'],
+    tool: 'get_meeting_transcript',
+    positional: ['recording_id'],
+    description: 'Print a meeting transcript'
+  },
+  {
+    path: ['teams'],
+    tool: 'list_teams',
+    description: 'List teams',
+    table: {
+      rows: 'teams',
+      columns: [
+        { header: 'id', value: row => row.id },
+        { header: 'name', value: row => row.name },
+        { header: 'members', value: row => row.member_count },
+        { header: 'created', value: row => shortDate(row.created_at) }
+      ]
+    }
+  },
+  {
+    path: ['teams', 'members'],
+    tool: 'list_team_members',
+    positional: ['team_id'],
+    description: 'List the members of a team',
+    table: {
+      rows: 'members',
+      columns: [
+        { header: 'id', value: row => row.id },
+        { header: 'name', value: row => row.name },
+        { header: 'email', value: row => row.email },
+        { header: 'role', value: row => row.role }
+      ]
+    }
+  },
+  {
+    path: ['webhooks', 'create'],
+    tool: 'create_webhook',
+    positional: ['url'],
+    description: 'Create a webhook and print its secret'
+  },
+  {
+    path: ['webhooks', 'delete'],
+    tool: 'delete_webhook',
+    positional: ['webhook_id'],
+    description: 'Delete a webhook'
+  },
+  {
+    path: ['webhooks', 'list'],
+    tool: 'list_webhooks',
+    description: 'List webhooks created through this server',
+    table: {
+      rows: 'webhooks',
+      columns: [
+        { header: 'id', value: row => row.id },
+        { header: 'url', value: row => row.url },
+        { header: 'registered', value: row => shortDate(row.registered_at) },
+        { header: 'last test', value: row => lastTest(row.last_test as WebhookTestResult | undefined) }
+      ]
+    }
+  },
+  {
+    path: ['webhooks', 'get'],
+    tool: 'get_webhook',
+    positional: ['webhook_id'],
+    description: 'Show a registered webhook (add --include-secret for its secret)'
+  },
+  {
+    path: ['webhooks', 'rotate'],
+    tool: 'rotate_webhook',
+    positional: ['webhook_id'],
+    description: 'Replace a webhook with a new secret'
+  },
+  {
+    path: ['webhooks', 'test'],
+    tool: 'test_webhook',
+    positional: ['webhook_id'],
+    description: 'Send a signed sample delivery to a registered webhook'
+  },
+  {
+    path: ['sync'],
+    tool: 'sync_meetings',
+    description: 'Sync new meetings into the local store'
+  },
+  {
+    path: ['export'],
+    tool: 'export_meetings',
+    positional: ['format'],
+    description: 'Export meetings (markdown, jsonl, csv, srt, vtt) to stdout, or to a folder with --out'
+  }
+];
+
+class UsageError extends Error {}
+
+const toFlag = (name: string) => `--${name.replace(/_/g, '-')}`;
+
+function unwrap(field: z.ZodTypeAny): z.ZodTypeAny {
+  while (field instanceof z.ZodOptional || field instanceof z.ZodDefault) {
+    field = field._def.innerType;
+  }
+  return field;
+}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string | boolean>;
+}
+
+const GLOBAL_BOOLEAN_FLAGS = ['json', 'verbose', 'help'];
+
+// --name value, --name=value, --flag and --no-flag; everything else is positional.
+// Boolean options never take the next argument as their value.
+function parseArgv(argv: string[], booleans: Set<string>): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | boolean>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-h') {
+      flags.set('help', true);
+    } else if (arg.startsWith('--')) {
+      const [name, value] = arg.slice(2).split(/=(.*)/s, 2);
+      const key = name.replace(/-/g, '_');
+      if (value !== undefined) {
+        flags.set(key, value);
+      } else if (key.startsWith('no_')) {
+        flags.set(key.slice(3), false);
+      } else if (!booleans.has(key) && argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+        flags.set(key, argv[++i]);
+      } else {
+        flags.set(key, true);
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, flags };
+}
+
+// Turn command-line strings into tool parameters, using the tool's zod schema for types
+function buildParams(command: CliCommand, schema: z.AnyZodObject, args: ParsedArgs): Record<string, unknown> {
+  const shape: z.ZodRawShape = schema.shape;
+  const params: Record<string, unknown> = {};
+
+  const positionalNames = command.positional ?? [];
+  if (!command.variadic && args.positional.length > positionalNames.length) {
+    throw new UsageError(`Unexpected argument: ${args.positional[positionalNames.length]}`);
+  }
+  positionalNames.forEach((name, index) => {
+    const last = index === positionalNames.length - 1;
+    const values = last && command.variadic ? args.positional.slice(index) : args.positional.slice(index, index + 1);
+    if (values.length > 0) params[name] = values.join(' ');
+  });
+
+  for (const [name, raw] of args.flags) {
+    const field = shape[name];
+    if (!field) {
+      throw new UsageError(`Unknown option ${toFlag(name)}. Run with --help to see the options.`);
+    }
+    const type = unwrap(field);
+    if (type instanceof z.ZodBoolean) {
+      params[name] = raw === true || raw === 'true';
+    } else if (raw === true || raw === false) {
+      throw new UsageError(`Option ${toFlag(name)} needs a value`);
+    } else if (type instanceof z.ZodNumber) {
+      params[name] = Number(raw);
+    } else if (type instanceof z.ZodArray) {
+      params[name] = raw.split(',').map(value => value.trim()).filter(Boolean);
+    } else {
+      params[name] = raw;
+    }
+  }
+
+  const parsed = schema.safeParse(params);
+  if (!parsed.success) {
+    throw new UsageError(parsed.error.issues
+      .map(issue => `${issue.path.length ? toFlag(String(issue.path[0])) : 'arguments'}: ${issue.message}`)
+      .join('\n'));
+  }
+  return parsed.data;
+}
+
+function renderTable(rows: Row[], columns: Column[]): string {
+  const cells = rows.map(row => columns.map(column => {
+    const value = column.value(row);
+    const text = value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ');
+    return text.length > MAX_COLUMN_WIDTH ? `${text.slice(0, MAX_COLUMN_WIDTH - 1)}…` : text;
+  }));
+  const headers = columns.map(column => column.header.toUpperCase());
+  const widths = headers.map((header, index) => Math.max(header.length, ...cells.map(row => row[index].length)));
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+  return [line(headers), ...cells.map(line)].join('\n');
+}
+
+type ContentItem = CallToolResult['content'][number];
+
+function resourceText(item: ContentItem): string | undefined {
+  return item.type === 'resource' && typeof item.resource.text === 'string' ? item.resource.text : undefined;
+}
+
+function resultText(result: CallToolResult): string {
+  return result.content
+    .map(item => item.type === 'text' ? item.text : resourceText(item) ?? '')
+    .join('\n');
+}
+
+async function printResult(command: CliCommand, result: CallToolResult, flags: Map<string, string | boolean>): Promise<void> {
+  const resources = result.content.filter(item => item.type === 'resource');
+  const outDir = flags.get('out');
+  if (command.tool === 'export_meetings' && typeof outDir === 'string') {
+    await fs.mkdir(outDir, { recursive: true });
+    for (const item of resources) {
+      const text = resourceText(item);
+      if (item.type !== 'resource' || text === undefined) continue;
+      const filePath = path.join(outDir, path.basename(item.resource.uri));
+      await fs.writeFile(filePath, text, 'utf8');
+      console.log(filePath);
+    }
+    return;
+  }
+  if (resources.length > 0) {
+    // Exported files go to stdout on their own, so `export csv > meetings.csv` works
+    process.stdout.write(resources.map(item => resourceText(item) ?? '').join('\n'));
+    return;
+  }
+
+  const text = resultText(result);
+  if (!command.table || flags.get('json')) {
+    console.log(text);
+    return;
+  }
+
+  const data = JSON.parse(text);
+  const rows: Row[] = data[command.table.rows] ?? [];
+  console.log(rows.length > 0 ? renderTable(rows, command.table.columns) : 'No results.');
+  if (data.has_more && data.next_cursor) {
+    process.stderr.write(`More results: add --cursor ${data.next_cursor}\n`);
+  }
+}
+
+function usage(): string {
+  const width = Math.max(...commands.map(command => [...command.path, ...(command.positional ?? []).map(name => `<${name}>`)].join(' ').length));
+  return [
+    'Usage: mcp-fathom-server [command] [options]',
+    '',
+    'With no command, starts the MCP server over stdio.',
+    '',
+    'Commands:',
+    ...commands.map(command =>
+      `  ${[...command.path, ...(command.positional ?? []).map(name => `<${name}>`)].join(' ').padEnd(width)}  ${command.description}`),
+    `  ${'serve'.padEnd(width)}  Start the MCP server over stdio`,
+    '',
+    'Global options:',
+    '  --json       Print the raw JSON the MCP tool returns instead of a table',
+    '  --verbose    Show request logs on stderr',
+    '  -h, --help   Show help for a command'
+  ].join('\n');
+}
+
+function commandUsage(command: CliCommand, tool: ToolDefinition): string {
+  const shape: z.ZodRawShape = tool.schema.shape;
+  const positional = command.positional ?? [];
+  const options = Object.entries(shape).filter(([name]) => !positional.includes(name));
+  const width = Math.max(0, ...options.map(([name]) => toFlag(name).length));
+  return [
+    `Usage: mcp-fathom-server ${[...command.path, ...positional.map(name => `<${name}>`)].join(' ')} [options]`,
+    '',
+    command.description,
+    '',
+    ...positional.map(name => `  <${name}>  ${shape[name].description ?? ''}`),
+    ...(positional.length > 0 ? [''] : []),
+    'Options:',
+    ...options.map(([name, field]) => `  ${toFlag(name).padEnd(width)}  ${field.description ?? ''}`),
+    ...(command.tool === 'export_meetings' ? [`  ${'--out'.padEnd(width)}  Write the files to this folder instead of stdout`] : [])
+  ].join('\n');
+}
+
+// The longest command path matching the start of argv, so "teams members" wins over "teams"
+function findCommand(argv: string[]): CliCommand | undefined {
+  return [...commands]
+    .sort((a, b) => b.path.length - a.path.length)
+    .find(command => command.path.every((part, index) => argv[index] === part));
+}
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv[0] === 'serve') {
+    await import("./index.js");
+    return -1;
+  }
+  if (argv[0] === 'help' || argv[0] === '--help' || argv[0] === '-h') {
+    console.log(usage());
+    return 0;
+  }
+
+  const command = findCommand(argv);
+  if (!command) {
+    process.stderr.write(`Unknown command: ${argv.join(' ')}\n\n${usage()}\n`);
+    return 2;
+  }
+  const tool = tools.find(candidate => candidate.name === command.tool)!;
+  const shape: z.ZodRawShape = tool.schema.shape;
+  const booleans = new Set([
+    ...GLOBAL_BOOLEAN_FLAGS,
+    ...Object.keys(shape).filter(name => unwrap(shape[name]) instanceof z.ZodBoolean)
+  ]);
+  const args = parseArgv(argv.slice(command.path.length), booleans);
+  if (args.flags.get('help')) {
+    console.log(commandUsage(command, tool));
+    return 0;
+  }
+
+  const flags = new Map(args.flags);
+  const verbose = flags.get('verbose') === true;
+  ['json', 'verbose', 'out'].forEach(name => args.flags.delete(name));
+
+  const apiKey = process.env.FATHOM_API_KEY;
+  if (!apiKey) {
+    process.stderr.write('Error: FATHOM_API_KEY environment variable is required\n');
+    return 1;
+  }
+
+  const params = buildParams(command, tool.schema, args);
+  // Tool handlers log progress to stderr for the server; only warnings show unless asked
+  setLogLevel(verbose ? 'debug' : 'warn');
+
+  const meetingStore = createMeetingStoreFromEnv();
+  const context: ToolContext = {
+    fathomClient: new FathomClient(apiKey, { store: meetingStore, vectorIndex: createVectorIndexFromEnv(meetingStore) }),
+    meetingStore,
+    actionItems: createActionItemTracker(meetingStore),
+    webhooks: createWebhookRegistry(meetingStore)
+  };
+
+  const result = await tool.handler(params, context);
+  await printResult(command, result, flags);
+  return result.isError ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    if (code >= 0) process.exitCode = code;
+  },
+  error => {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  }
+);
@@ -0,0 +1,161 @@
+import axios, { AxiosInstance } from 'axios';
+import { tokenize } from './search-index.js';
+import { instrumentAxios } from './tracing.js';
+
+// Turns text into vectors for semantic search. Vectors from different providers
+// (or models) aren't comparable, so each provider has its own ID and index on disk.
+export interface EmbeddingProvider {
+  id: string;
+  // Local providers are free to call, so the search path embeds everything it sees
+  local: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_DIMENSIONS = 384;
+
+// Words that carry no topic on their own and would otherwise dominate short chunks
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'have', 'he', 'i', 'if',
+  'in', 'is', 'it', 'just', 'like', 'me', 'my', 'no', 'not', 'of', 'oh', 'ok', 'okay', 'on', 'or', 'so',
+  'that', 'the', 'there', 'they', 'this', 'to', 'um', 'uh', 'was', 'we', 'were', 'what', 'with', 'yeah',
+  'yes', 'you', 'your'
+]);
+
+// Strips common English suffixes so "pricing", "priced" and "prices" land on the same feature
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word.replace(/(?:ational|ization|fulness|iveness|ments?|ings?|edly|ies|ied|ers?|ed|es|ly|s)$/, '') || word;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+// Vectors are stored normalised, so cosine similarity is a dot product
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+// Offline default: hashes stemmed words, word pairs and character trigrams into a fixed-size
+// vector. It needs no model download and matches across word forms and close spellings,
+// but unlike a trained model it won't relate synonyms ("cost" and "price").
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `local-hash-${LOCAL_DIMENSIONS}`;
+  readonly local = true;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks a sign so colliding features tend to cancel rather than pile up
+      vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    const stems = tokenize(text)
+      .map(token => token.term)
+      .filter(term => !STOP_WORDS.has(term))
+      .map(stem);
+
+    stems.forEach((word, index) => {
+      add(`w:${word}`, 1);
+      if (index > 0) add(`b:${stems[index - 1]} ${word}`, 0.5);
+      const padded = `<${word}>`;
+      const trigrams = Math.max(1, padded.length - 2);
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 0.5 / trigrams);
+      }
+    });
+
+    // Dampen repeated words the way sublinear term frequency does
+    return normalizeVector(vector.map(value => Math.sign(value) * Math.sqrt(Math.abs(value))));
+  }
+}
+
+export interface RemoteEmbeddingOptions {
+  // Full URL of an OpenAI-compatible embeddings endpoint
+  url: string;
+  apiKey?: string;
+  model: string;
+  batchSize?: number;
+}
+
+// Any service speaking the OpenAI embeddings API: POST { model, input: string[] } -> { data: [{ embedding }] }
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly local = false;
+  private client: AxiosInstance;
+  private url: string;
+  private model: string;
+  private batchSize: number;
+
+  constructor(options: RemoteEmbeddingOptions) {
+    this.id = `remote-${options.model.replace(/[^a-zA-Z0-9._-]+/g, '-')}`;
+    this.url = options.url;
+    this.model = options.model;
+    this.batchSize = options.batchSize ?? 64;
+    this.client = instrumentAxios(axios.create({
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {})
+      },
+      timeout: 30000
+    }), 'embeddings');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize).map(text => text.slice(0, 8000));
+      try {
+        const response = await this.client.post<{ data: { index: number; embedding: number[] }[] }>(this.url, {
+          model: this.model,
+          input: batch
+        });
+        const ordered = [...response.data.data].sort((a, b) => a.index - b.index);
+        vectors.push(...ordered.map(item => normalizeVector(item.embedding)));
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        throw new Error(`Embedding request failed${status ? ` (${status})` : ''}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return vectors;
+  }
+}
+
+// FATHOM_EMBEDDINGS_PROVIDER picks the provider: 'local' (default), 'remote', or 'none' to turn
+// semantic search off. The remote provider defaults to OpenAI's text-embedding-3-small.
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider | undefined {
+  const provider = process.env.FATHOM_EMBEDDINGS_PROVIDER || 'local';
+  switch (provider) {
+    case 'none':
+      return undefined;
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'remote':
+      return new RemoteEmbeddingProvider({
+        url: process.env.FATHOM_EMBEDDINGS_URL || 'https://api.openai.com/v1/embeddings',
+        apiKey: process.env.FATHOM_EMBEDDINGS_API_KEY,
+        model: process.env.FATHOM_EMBEDDINGS_MODEL || 'text-embedding-3-small'
+      });
+    default:
+      throw new Error(`Unknown FATHOM_EMBEDDINGS_PROVIDER "${provider}". Use local, remote or none.`);
+  }
+}
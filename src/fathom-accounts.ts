@@ -0,0 +1,236 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ActionItemTracker, createActionItemTracker } from './action-items.js';
+import { isValidApiKey } from './fathom-client.js';
+import { createLogger } from './logger.js';
+import { MeetingStore, createMeetingStoreFromEnv, defaultDataDir } from './meeting-store.js';
+import { Redactor, createRedactorFromEnv } from './redaction.js';
+import { SearchIndex } from './search-index.js';
+import { FathomMeeting } from './types.js';
+import { VectorIndex, createVectorIndexFromEnv } from './vector-index.js';
+import { WebhookReceiver, WebhookVerificationError } from './webhook-receiver.js';
+import { WebhookRegistry, createWebhookRegistry } from './webhook-registry.js';
+
+const log = createLogger('ACCOUNTS');
+
+// Header a remote MCP client sends on initialize to use its own Fathom API key
+export const API_KEY_HEADER = 'x-fathom-api-key';
+
+const DEFAULT_MAX_ACCOUNTS = 100;
+
+type HeaderValue = string | string[] | undefined;
+
+// State shared by every session using the same Fathom API key
+export interface FathomAccount {
+  id: string;
+  // Unset for an account loaded from disk at startup until one of its sessions sends the key
+  apiKey?: string;
+  meetingStore?: MeetingStore;
+  actionItems?: ActionItemTracker;
+  vectorIndex?: VectorIndex;
+  // Built from the account's meetings as searches run, and kept for the account's later sessions
+  searchIndex: SearchIndex;
+  webhookReceiver: WebhookReceiver;
+  webhooks?: WebhookRegistry;
+  redactor?: Redactor;
+}
+
+export interface FathomAccountsOptions {
+  // Key used by sessions that don't send their own; leave unset to require one per session
+  sharedApiKey?: string;
+  sharedWebhookSecrets?: string[];
+  // Most accounts kept in memory; beyond it the least recently used idle ones are dropped
+  // (default: 100)
+  maxAccounts?: number;
+  // Whether an account has open sessions, which keeps it from being dropped
+  inUse?: (accountId: string) => boolean;
+  // Checks a key with Fathom before an account is created for it
+  validateApiKey?: (apiKey: string) => Promise<boolean>;
+}
+
+// A session's API key can't be used: Fathom rejected it (401) or couldn't be asked (503)
+export class AccountError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+// Short, stable identifier for an API key, safe to log and to use as a directory name
+export function apiKeyFingerprint(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+// MCP_MAX_ACCOUNTS caps the accounts kept in memory
+export function createFathomAccountsFromEnv(options: Omit<FathomAccountsOptions, 'maxAccounts'> = {}): FathomAccounts {
+  return new FathomAccounts({ ...options, maxAccounts: Number(process.env.MCP_MAX_ACCOUNTS) || undefined });
+}
+
+export class FathomAccounts {
+  // In least recently used order: an account moves to the end each time it is resolved
+  private accounts = new Map<string, FathomAccount>();
+  private validating = new Map<string, Promise<void>>();
+  // Secrets of registered webhooks, loaded into each account's receiver in the background
+  private secretsLoaded = new Map<string, Promise<void>>();
+  private storedAccountsLoaded: Promise<void>;
+  private sharedApiKey?: string;
+  private maxAccounts: number;
+  private inUse: (accountId: string) => boolean;
+  private validateApiKey: (apiKey: string) => Promise<boolean>;
+
+  constructor(options: FathomAccountsOptions = {}) {
+    this.sharedApiKey = options.sharedApiKey;
+    this.maxAccounts = Math.max(1, options.maxAccounts ?? DEFAULT_MAX_ACCOUNTS);
+    this.inUse = options.inUse ?? (() => false);
+    this.validateApiKey = options.validateApiKey ?? isValidApiKey;
+    if (this.sharedApiKey) {
+      // The shared account keeps the original single-user data directory
+      const account = this.createAccount(apiKeyFingerprint(this.sharedApiKey), this.sharedApiKey, createMeetingStoreFromEnv());
+      options.sharedWebhookSecrets?.forEach(secret => account.webhookReceiver.addSecret(secret));
+    }
+    this.storedAccountsLoaded = this.loadStoredAccounts();
+  }
+
+  get hasSharedApiKey(): boolean {
+    return !!this.sharedApiKey;
+  }
+
+  // Pick the account for a new session: its own key if it sent one, otherwise the shared key
+  async resolve(headers: Record<string, HeaderValue>): Promise<FathomAccount | undefined> {
+    const value = headers[API_KEY_HEADER];
+    const apiKey = (Array.isArray(value) ? value[0] : value)?.trim() || this.sharedApiKey;
+    return apiKey ? this.forApiKey(apiKey) : undefined;
+  }
+
+  // A key no account holds yet is checked with Fathom first, so made-up keys can't create
+  // accounts (each with its own indexes and data directory)
+  async forApiKey(apiKey: string): Promise<FathomAccount> {
+    const id = apiKeyFingerprint(apiKey);
+    const known = this.accounts.get(id);
+    if (known?.apiKey === apiKey) {
+      this.markUsed(known);
+      return known;
+    }
+
+    await this.validate(apiKey);
+    const account = this.accounts.get(id) ?? this.createAccount(id, apiKey, createMeetingStoreFromEnv(id));
+    account.apiKey ??= apiKey;
+    this.markUsed(account);
+    await this.dropIdleAccounts(id);
+    return account;
+  }
+
+  private markUsed(account: FathomAccount): void {
+    this.accounts.delete(account.id);
+    this.accounts.set(account.id, account);
+  }
+
+  // A webhook delivery carries no account identifier, so it belongs to whichever
+  // account holds the secret its signature verifies against
+  async receiveWebhook(headers: Record<string, HeaderValue>, rawBody: Buffer | string): Promise<{ account: FathomAccount; meeting: FathomMeeting }> {
+    let lastError = new WebhookVerificationError('No webhook secret configured', 503);
+    await this.storedAccountsLoaded;
+    await Promise.all(this.secretsLoaded.values());
+
+    for (const account of this.accounts.values()) {
+      if (!account.webhookReceiver.hasSecrets()) {
+        continue;
+      }
+      try {
+        return { account, meeting: account.webhookReceiver.receive(headers, rawBody) };
+      } catch (error) {
+        // A signature mismatch only means the delivery is for another account
+        if (!(error instanceof WebhookVerificationError) || error.status !== 401) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private validate(apiKey: string): Promise<void> {
+    let pending = this.validating.get(apiKey);
+    if (!pending) {
+      pending = this.validateApiKey(apiKey).then(valid => {
+        if (!valid) {
+          throw new AccountError('Fathom rejected the API key');
+        }
+      }, error => {
+        throw new AccountError(`Could not check the API key with Fathom: ${error instanceof Error ? error.message : error}`, 503);
+      }).finally(() => this.validating.delete(apiKey));
+      this.validating.set(apiKey, pending);
+    }
+    return pending;
+  }
+
+  // Beyond maxAccounts, drop the least recently used accounts that hold nothing live. Accounts
+  // with open sessions or webhook secrets stay, or their sessions or deliveries would break;
+  // a dropped account's data stays on disk for when its key comes back.
+  private async dropIdleAccounts(keep: string): Promise<void> {
+    await this.storedAccountsLoaded;
+    await Promise.all(this.secretsLoaded.values());
+    let excess = this.accounts.size - this.maxAccounts;
+    for (const account of this.accounts.values()) {
+      if (excess <= 0) {
+        return;
+      }
+      if (account.id === keep || account.apiKey === this.sharedApiKey || account.webhookReceiver.hasSecrets() || this.inUse(account.id)) {
+        continue;
+      }
+      this.accounts.delete(account.id);
+      this.secretsLoaded.delete(account.id);
+      excess--;
+      log.info(`Dropped idle account ${account.id}: limit of ${this.maxAccounts} accounts reached`);
+    }
+    if (excess > 0) {
+      log.warn(`${this.accounts.size} accounts are in use, above the limit of ${this.maxAccounts}`);
+    }
+  }
+
+  // Webhooks registered by any account must verify after a restart, before its users
+  // reconnect, so every account directory under <dataDir>/accounts is loaded up front
+  private async loadStoredAccounts(): Promise<void> {
+    if (process.env.FATHOM_DISABLE_STORE === 'true') {
+      return;
+    }
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(defaultDataDir(), 'accounts'), { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Could not list stored accounts', { error });
+      }
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && /^[0-9a-f]{16}$/.test(entry.name) && !this.accounts.has(entry.name)) {
+        this.createAccount(entry.name, undefined, createMeetingStoreFromEnv(entry.name));
+      }
+    }
+  }
+
+  private createAccount(id: string, apiKey: string | undefined, meetingStore?: MeetingStore): FathomAccount {
+    const account: FathomAccount = {
+      id,
+      apiKey,
+      meetingStore,
+      actionItems: createActionItemTracker(meetingStore),
+      vectorIndex: createVectorIndexFromEnv(meetingStore),
+      searchIndex: new SearchIndex(),
+      webhookReceiver: new WebhookReceiver(),
+      webhooks: createWebhookRegistry(meetingStore),
+      redactor: createRedactorFromEnv(meetingStore)
+    };
+    this.accounts.set(account.id, account);
+    if (account.webhooks) {
+      this.secretsLoaded.set(account.id, account.webhooks.secrets()
+        .then(secrets => secrets.forEach(secret => account.webhookReceiver.addSecret(secret)))
+        .catch(error => log.warn(`Could not load webhook secrets for account ${account.id}`, { error })));
+    }
+    log.info(`Registered Fathom account ${account.id}`);
+    return account;
+  }
+}
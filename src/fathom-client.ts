@@ -1,39 +1,311 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import {
   FathomListMeetingsParams,
   FathomListMeetingsResponse,
   FathomMeeting,
+  FathomListTeamsParams,
   FathomListTeamsResponse,
   FathomListTeamMembersParams,
   FathomListTeamMembersResponse,
   FathomCreateWebhookParams,
   FathomCreateWebhookResponse,
-  FathomDeleteWebhookParams
+  FathomDeleteWebhookParams,
+  FathomTranscriptResponse,
+  FathomTranscriptSegment,
+  FathomTeam,
+  FathomTeamMember,
+  FathomPageOptions,
+  FathomCollectedPages
 } from './types.js';
+import { createLogger } from './logger.js';
+import { fathomApiRateLimited, fathomApiResponses } from './metrics.js';
+import { formatTranscript, normalizeTranscriptSegments, parseTranscript } from './transcript.js';
+import { instrumentAxios } from './tracing.js';
+import { MeetingStore, canFilterLocally, meetingKey } from './meeting-store.js';
+import { SearchFilters, SearchIndex, SearchResult, parseQuery } from './search-index.js';
+import { VectorIndex, fuseRankings } from './vector-index.js';
+import {
+  ConcurrencyLimiter,
+  TokenBucket,
+  backoffDelayMs,
+  parseRetryAfterMs,
+  sleep,
+  tokenBucketForKey
+} from './rate-limiter.js';
+
+// Time a request may spend waiting between retries, including waits asked for by Retry-After
+const DEFAULT_RETRY_BUDGET_MS = 60 * 1000;
+// Transcripts fetched from the API per search, to avoid timeouts on a cold index
+const DEFAULT_MAX_TRANSCRIPT_FETCHES = 10;
+// Meetings embedded per search with a remote (paid, rate-limited) embedding provider
+const DEFAULT_MAX_REMOTE_EMBEDS = 20;
+// Summaries, action items and transcripts can land days after a meeting is created, so each
+// incremental sync fetches meetings this recent again
+const DEFAULT_SYNC_REFRESH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const FATHOM_API_BASE_URL = 'https://api.fathom.ai/external/v1';
+
+const log = createLogger('FATHOM');
+const syncLog = createLogger('SYNC');
+const searchLog = createLogger('SEARCH');
+
+// Whether Fathom accepts an API key, checked with one small request. It bypasses the per-key
+// rate limiter so keys that turn out to be invalid leave nothing behind.
+export async function isValidApiKey(apiKey: string): Promise<boolean> {
+  try {
+    await axios.get(`${FATHOM_API_BASE_URL}/teams`, { headers: { 'X-Api-Key': apiKey }, timeout: 10000 });
+    return true;
+  } catch (error) {
+    const status = error instanceof AxiosError ? error.response?.status : undefined;
+    if (status === 401 || status === 403) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Endpoint label for metrics, with IDs collapsed so each endpoint is one series
+function endpointLabel(url: string = ''): string {
+  return url.split('?')[0].replace(/\/(recordings|teams|webhooks)\/[^/]+/g, '/$1/:id');
+}
+
+// A next_cursor that resumes partway through a page: the cursor that fetches the page (none
+// for the first page or the local store) and how many of its items were already returned
+const PAGE_OFFSET_CURSOR_PREFIX = 'offset.';
+
+function encodePageCursor(cursor: string | undefined, offset: number): string {
+  return PAGE_OFFSET_CURSOR_PREFIX + Buffer.from(JSON.stringify({ cursor, offset })).toString('base64url');
+}
+
+// Fathom's own cursors pass through with no offset
+function decodePageCursor(cursor?: string): { cursor?: string; offset: number } {
+  if (!cursor?.startsWith(PAGE_OFFSET_CURSOR_PREFIX)) {
+    return { cursor, offset: 0 };
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor.slice(PAGE_OFFSET_CURSOR_PREFIX.length), 'base64url').toString('utf8'));
+    if (Number.isInteger(decoded.offset) && decoded.offset >= 0 && (decoded.cursor === undefined || typeof decoded.cursor === 'string')) {
+      return { cursor: decoded.cursor, offset: decoded.offset };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+export interface FathomClientOptions {
+  // When set, meetings and transcripts are served from this store and only deltas are fetched
+  store?: MeetingStore;
+  // Minimum time between automatic incremental syncs (default: 60 seconds)
+  syncIntervalMs?: number;
+  // How far back each incremental sync re-fetches meetings to pick up later changes (default: 7 days)
+  syncRefreshWindowMs?: number;
+  // Requests allowed in flight at once (default: 4)
+  maxConcurrency?: number;
+  // Retries for 429, 5xx and network timeouts before giving up (default: 4)
+  maxRetries?: number;
+  // Most time a request waits between its retries (default: 60 seconds). A Retry-After beyond
+  // what is left fails the request straight away instead of holding the caller.
+  retryBudgetMs?: number;
+  // Request budget shared by all clients using the same API key (default: 60, Fathom's documented limit)
+  requestsPerMinute?: number;
+  // Chunk embeddings that enable semantic and hybrid search
+  vectorIndex?: VectorIndex;
+  // Full-text index to search, shared by clients of the same account so it is built once
+  searchIndex?: SearchIndex;
+}
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface FathomSearchOptions extends SearchFilters {
+  includeTranscript?: boolean;
+  limit?: number;
+  maxTranscriptFetches?: number;
+  // Defaults to hybrid when an embedding provider is configured, keyword otherwise
+  mode?: SearchMode;
+  maxEmbeds?: number;
+  // Only meetings this accepts are indexed or ranked, e.g. those the caller's access policy allows
+  include?: (meeting: FathomMeeting) => boolean;
+}
+
+export interface FathomSearchResponse {
+  results: SearchResult[];
+  mode: SearchMode;
+  meetings_searched: number;
+  // Meetings whose transcripts weren't searched this time (fetch budget spent or fetch failed)
+  transcripts_pending: number;
+  // Meetings not yet embedded for semantic search (embedding budget spent or embedding failed)
+  embeddings_pending?: number;
+}
+
+export interface FathomSyncResult {
+  fetched: number;
+  added: number;
+  total: number;
+  last_synced_at: string;
+  transcripts_fetched?: number;
+}
 
 export class FathomClient {
   private client: AxiosInstance;
   private apiKey: string;
+  private limiter: ConcurrencyLimiter;
+  private bucket: TokenBucket;
+  private maxRetries: number;
+  private retryBudgetMs: number;
+  private store?: MeetingStore;
+  private syncIntervalMs: number;
+  private syncRefreshWindowMs: number;
+  private lastSyncAttempt = 0;
+  private syncInFlight?: Promise<FathomSyncResult>;
+  private searchIndex: SearchIndex;
+  private vectorIndex?: VectorIndex;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: FathomClientOptions = {}) {
     if (!apiKey) {
       throw new Error('Fathom API key is required');
     }
     
     this.apiKey = apiKey;
-    this.client = axios.create({
-      baseURL: 'https://api.fathom.ai/external/v1',
+    this.client = instrumentAxios(axios.create({
+      baseURL: FATHOM_API_BASE_URL,
       headers: {
         'X-Api-Key': apiKey,
         'Content-Type': 'application/json'
       },
       timeout: 30000
-    });
+    }), 'fathom');
+    this.store = options.store;
+    this.syncIntervalMs = options.syncIntervalMs ?? 60 * 1000;
+    this.syncRefreshWindowMs = options.syncRefreshWindowMs ?? DEFAULT_SYNC_REFRESH_WINDOW_MS;
+    this.limiter = new ConcurrencyLimiter(options.maxConcurrency ?? 4);
+    this.bucket = tokenBucketForKey(apiKey, options.requestsPerMinute ?? 60);
+    this.maxRetries = options.maxRetries ?? 4;
+    this.retryBudgetMs = options.retryBudgetMs ?? DEFAULT_RETRY_BUDGET_MS;
+    this.vectorIndex = options.vectorIndex;
+    this.searchIndex = options.searchIndex ?? new SearchIndex();
   }
 
   async listMeetings(params?: FathomListMeetingsParams): Promise<FathomListMeetingsResponse> {
+    if (this.store && canFilterLocally(params)) {
+      return this.listStoredMeetings(params);
+    }
+    return this.fetchMeetings(params);
+  }
+
+  // Fathom has no single-meeting endpoint, so look in the local store first and otherwise
+  // page through the meeting list
+  async getMeeting(recordingId: string): Promise<FathomMeeting | undefined> {
+    const stored = await this.store?.getMeeting(recordingId);
+    if (stored) {
+      return stored;
+    }
+
+    for await (const meeting of this.iterateMeetings()) {
+      if (String(meeting.recording_id) === recordingId) {
+        return meeting;
+      }
+    }
+    return undefined;
+  }
+
+  // Pull meetings created since the last sync (following next_cursor) into the local store
+  async syncMeetings(options: { force?: boolean; includeTranscripts?: boolean } = {}): Promise<FathomSyncResult> {
+    const store = this.store;
+    if (!store) {
+      throw new Error('Local meeting store is disabled');
+    }
+
+    if (this.syncInFlight) {
+      return this.syncInFlight;
+    }
+
+    // Claimed before the first await, so concurrent callers share this sync
+    this.syncInFlight = (async () => {
+      const state = await store.getSyncState();
+      if (!options.force && !options.includeTranscripts &&
+          Date.now() - this.lastSyncAttempt < this.syncIntervalMs && state.last_synced_at) {
+        return { fetched: 0, added: 0, total: await store.countMeetings(), last_synced_at: state.last_synced_at };
+      }
+
+      this.lastSyncAttempt = Date.now();
+      const syncedAt = new Date().toISOString();
+      let fetched = 0;
+      let added = 0;
+      let lastCreatedAt = state.last_created_at;
+      // Start from the watermark or the refresh window, whichever is earlier; upserting the
+      // overlap records any meeting that changed since it was last fetched
+      const refreshFrom = new Date(Date.now() - this.syncRefreshWindowMs).toISOString();
+      const createdAfter = state.last_created_at && (state.last_created_at < refreshFrom ? state.last_created_at : refreshFrom);
+
+      for await (const page of this.paginate(cursor => this.fetchMeetings({ created_after: createdAfter, include_crm_matches: true, cursor }))) {
+        fetched += page.items.length;
+        added += await store.upsertMeetings(page.items);
+        for (const meeting of page.items) {
+          if (!lastCreatedAt || meeting.created_at > lastCreatedAt) {
+            lastCreatedAt = meeting.created_at;
+          }
+        }
+      }
+
+      await store.updateSyncState({ last_created_at: lastCreatedAt, last_synced_at: syncedAt });
+      const total = await store.countMeetings();
+      syncLog.info(`Fetched ${fetched} meetings (${added} new), ${total} stored`);
+
+      if (!options.includeTranscripts) {
+        return { fetched, added, total, last_synced_at: syncedAt };
+      }
+
+      // Backfill transcripts one at a time so a large history doesn't trip the rate limit
+      let transcriptsFetched = 0;
+      for (const meeting of await store.listMeetings()) {
+        if (!meeting.recording_id || await store.getTranscript(meeting.recording_id)) continue;
+        if ((await this.getMeetingTranscriptSegments(meeting.recording_id)).length > 0) {
+          transcriptsFetched++;
+        }
+      }
+      syncLog.info(`Fetched ${transcriptsFetched} missing transcripts`);
+      return { fetched, added, total, last_synced_at: syncedAt, transcripts_fetched: transcriptsFetched };
+    })();
+
     try {
-      const response = await this.client.get<FathomListMeetingsResponse>('/meetings', {
+      return await this.syncInFlight;
+    } finally {
+      this.syncInFlight = undefined;
+    }
+  }
+
+  private async listStoredMeetings(params?: FathomListMeetingsParams): Promise<FathomListMeetingsResponse> {
+    const store = this.store!;
+
+    try {
+      await this.syncMeetings();
+    } catch (error) {
+      // Stale local data beats no data when Fathom is rate limiting or unreachable
+      syncLog.warn('Sync failed, answering from local store', { error });
+      if (await store.countMeetings() === 0) {
+        throw error;
+      }
+    }
+
+    const items = await store.listMeetings(params);
+    if (params?.include_transcript) {
+      for (const meeting of items) {
+        if (meeting.recording_id) {
+          const stored = await store.getTranscript(meeting.recording_id);
+          meeting.transcript = stored ? formatTranscript(stored.segments) : undefined;
+        }
+      }
+    }
+
+    return { items, limit: items.length };
+  }
+
+  private async fetchMeetings(params?: FathomListMeetingsParams): Promise<FathomListMeetingsResponse> {
+    try {
+      const response = await this.request<FathomListMeetingsResponse>({
+        method: 'GET',
+        url: '/meetings',
         params: this.formatParams(params)
       });
       
@@ -43,113 +315,199 @@ export class FathomClient {
     }
   }
 
-  async searchMeetings(searchTerm: string, includeTranscript: boolean = false): Promise<FathomMeeting[]> {
-    const searchLower = searchTerm.toLowerCase();
+  // Ranked full-text search over the local index. Transcripts missing from the index are pulled in
+  // from the store or, up to maxTranscriptFetches per call, from the API. Semantic and hybrid modes
+  // also rank transcript chunks by embedding similarity to the query.
+  async searchMeetings(query: string, options: FathomSearchOptions = {}): Promise<FathomSearchResponse> {
+    const includeTranscript = options.includeTranscript ?? true;
+    const mode = options.mode ?? (this.vectorIndex ? 'hybrid' : 'keyword');
+    if (mode !== 'keyword' && !this.vectorIndex) {
+      throw new Error(`Search mode "${mode}" needs an embedding provider; set FATHOM_EMBEDDINGS_PROVIDER`);
+    }
+    // Reject a malformed query before spending requests on transcripts
+    parseQuery(query);
 
-    // Fetch recent meetings
-    const response = await this.listMeetings({
-      include_transcript: false,
-      created_after: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() // Last 30 days
+    // Without a local store every page in the date range is listed from the API; transcripts
+    // beyond the fetch budget are fetched by later searches, as the index outlives this call
+    const listed = await this.collectMeetings({
+      created_after: options.created_after,
+      created_before: options.created_before
     });
+    const items = options.include ? listed.items.filter(options.include) : listed.items;
+
+    let fetchBudget = options.maxTranscriptFetches ?? DEFAULT_MAX_TRANSCRIPT_FETCHES;
+    const toFetch: FathomMeeting[] = [];
+    const fetchedSegments = new Map<string, FathomTranscriptSegment[]>();
+    let transcriptsPending = 0;
 
-    // If transcript search is enabled, fetch transcripts for ALL meetings (up to limit)
-    if (includeTranscript) {
-      const maxTranscripts = 10; // Limit to avoid timeouts
-      const meetingsToSearch = response.items.slice(0, maxTranscripts);
-      const meetingsWithRecordingId = meetingsToSearch.filter(m => m.recording_id);
+    for (const meeting of items) {
+      const key = meetingKey(meeting);
+      if (!key || this.searchIndex.hasMeeting(key, true)) continue;
 
-      console.error(`[SEARCH] Searching transcripts for ${meetingsWithRecordingId.length}/${meetingsToSearch.length} meetings with recording IDs...`);
+      if (!includeTranscript || !meeting.recording_id) {
+        if (!this.searchIndex.hasMeeting(key)) this.searchIndex.upsertMeeting(key, meeting);
+        continue;
+      }
 
-      // Track success/failure counts
-      let successCount = 0;
-      let skipCount = 0;
+      const stored = await this.store?.getTranscript(meeting.recording_id);
+      if (stored) {
+        this.searchIndex.upsertMeeting(key, meeting, stored.segments);
+      } else if (fetchBudget > 0) {
+        fetchBudget--;
+        toFetch.push(meeting);
+      } else {
+        transcriptsPending++;
+        if (!this.searchIndex.hasMeeting(key)) this.searchIndex.upsertMeeting(key, meeting);
+      }
+    }
+
+    if (toFetch.length > 0) {
+      searchLog.info(`Fetching ${toFetch.length} transcripts missing from the index`);
       let errorCount = 0;
 
-      // Fetch transcripts in parallel for all meetings
-      const transcriptPromises = meetingsWithRecordingId.map(async meeting => {
-        if (meeting.recording_id) {
-          try {
-            const transcript = await this.getMeetingTranscript(meeting.recording_id);
-            if (transcript) {
-              meeting.transcript = transcript;
-              successCount++;
-            } else {
-              skipCount++;
-            }
-          } catch (error) {
-            errorCount++;
-            console.error(`[ERROR] Failed to fetch transcript for recording ${meeting.recording_id}:`,
-              error instanceof Error ? error.message : 'Unknown error');
-            // Critical errors (auth, rate limit) will throw and stop the search
-            throw error;
-          }
+      await Promise.all(toFetch.map(async meeting => {
+        let segments: FathomTranscriptSegment[] = [];
+        try {
+          segments = await this.getMeetingTranscriptSegments(meeting.recording_id!);
+        } catch (error) {
+          errorCount++;
+          transcriptsPending++;
+          searchLog.warn(`Failed to fetch transcript for recording ${meeting.recording_id}`, { error });
         }
-        return meeting;
-      });
+        this.searchIndex.upsertMeeting(meetingKey(meeting)!, meeting, segments.length ? segments : undefined);
+        if (segments.length) fetchedSegments.set(meetingKey(meeting)!, segments);
+      }));
 
-      await Promise.all(transcriptPromises);
+      searchLog.info(`Transcript fetch results: ${toFetch.length - errorCount} fetched, ${errorCount} errors`);
+    }
 
-      console.error(`[SEARCH] Transcript fetch results: ${successCount} successful, ${skipCount} skipped, ${errorCount} errors`);
+    const filters = {
+      speaker: options.speaker,
+      created_after: options.created_after,
+      created_before: options.created_before,
+      // The index also holds meetings from earlier searches, which the filter hasn't seen
+      keys: options.include ? new Set(items.map(meetingKey).filter((key): key is string => !!key)) : undefined
+    };
+    if (mode === 'keyword') {
+      return {
+        results: this.searchIndex.search(query, filters, options.limit),
+        mode,
+        meetings_searched: items.length,
+        transcripts_pending: transcriptsPending
+      };
+    }
 
-      // Filter meetings that match in EITHER metadata OR transcript
-      return meetingsToSearch.filter(meeting => {
-        const titleMatch = meeting.title?.toLowerCase().includes(searchLower) ||
-                          meeting.meeting_title?.toLowerCase().includes(searchLower);
-        const summaryMatch = meeting.default_summary?.toLowerCase().includes(searchLower);
-        const actionItemsMatch = meeting.action_items?.some(item =>
-          typeof item === 'string' && item.toLowerCase().includes(searchLower)
-        );
-        const transcriptMatch = meeting.transcript?.toLowerCase().includes(searchLower);
+    const embeddingsPending = await this.embedMeetings(items, includeTranscript, fetchedSegments,
+      options.maxEmbeds ?? (this.vectorIndex!.isLocal ? Infinity : DEFAULT_MAX_REMOTE_EMBEDS));
 
-        return titleMatch || summaryMatch || actionItemsMatch || transcriptMatch;
+    const meetingsByKey = new Map(items.map(meeting => [meetingKey(meeting)!, meeting] as const).filter(([key]) => key));
+    const keyword = mode === 'hybrid' ? this.searchIndex.search(query, filters, options.limit) : [];
+    let semantic;
+    try {
+      semantic = await this.vectorIndex!.search(query.replace(/"/g, ''), {
+        keys: new Set(meetingsByKey.keys()),
+        speaker: options.speaker,
+        limit: options.limit
       });
+    } catch (error) {
+      if (mode === 'semantic') throw error;
+      // Keyword results are still useful when the embedding provider can't be reached
+      searchLog.warn('Semantic ranking failed, returning keyword results', { error });
     }
 
-    // If transcript search is NOT enabled, only search metadata
-    return response.items.filter(meeting => {
-      const titleMatch = meeting.title?.toLowerCase().includes(searchLower) ||
-                        meeting.meeting_title?.toLowerCase().includes(searchLower);
-      const summaryMatch = meeting.default_summary?.toLowerCase().includes(searchLower);
-      const actionItemsMatch = meeting.action_items?.some(item =>
-        typeof item === 'string' && item.toLowerCase().includes(searchLower)
-      );
+    return {
+      results: semantic ? fuseRankings(keyword, semantic, meetingsByKey, meetingKey, options.limit) : keyword,
+      mode: semantic ? mode : 'keyword',
+      meetings_searched: items.length,
+      transcripts_pending: transcriptsPending,
+      embeddings_pending: embeddingsPending
+    };
+  }
 
-      return titleMatch || summaryMatch || actionItemsMatch;
-    });
+  // Embed the chunks of meetings missing from the vector index, reusing transcripts fetched
+  // by this search or held in the store. Returns how many were left for a later search.
+  private async embedMeetings(
+    items: FathomMeeting[],
+    includeTranscript: boolean,
+    fetchedSegments: Map<string, FathomTranscriptSegment[]>,
+    budget: number
+  ): Promise<number> {
+    const vectorIndex = this.vectorIndex!;
+    let pending = 0;
+    let embedded = 0;
+
+    for (const meeting of items) {
+      const key = meetingKey(meeting);
+      if (!key) continue;
+      const segments = includeTranscript && meeting.recording_id
+        ? fetchedSegments.get(key) ?? (await this.store?.getTranscript(meeting.recording_id))?.segments
+        : undefined;
+      if (await vectorIndex.hasMeeting(key, !!segments?.length)) continue;
+
+      if (budget <= 0) {
+        pending++;
+        continue;
+      }
+      budget--;
+      try {
+        await vectorIndex.indexMeeting(key, meeting, segments);
+        embedded++;
+      } catch (error) {
+        // One failure usually means the provider is down or misconfigured, so stop for this search
+        pending++;
+        budget = 0;
+        searchLog.warn(`Failed to embed meeting ${key}`, { error });
+      }
+    }
+
+    if (embedded > 0 || pending > 0) {
+      searchLog.info(`Embedded ${embedded} meetings with ${vectorIndex.providerId}, ${pending} pending`);
+    }
+    return pending;
   }
 
+  // Plain-text transcript as "[time] speaker: text" lines; empty when no transcript is available
   async getMeetingTranscript(recordingId: string): Promise<string> {
+    return formatTranscript(await this.getMeetingTranscriptSegments(recordingId));
+  }
+
+  // Transcript segments with speaker and timestamp; empty when no transcript is available
+  async getMeetingTranscriptSegments(recordingId: string): Promise<FathomTranscriptSegment[]> {
+    const stored = await this.store?.getTranscript(recordingId);
+    if (stored) {
+      return stored.segments;
+    }
+
+    const segments = await this.fetchMeetingTranscript(recordingId);
+    if (segments.length > 0 && this.store) {
+      await this.store.saveTranscript(recordingId, segments);
+    }
+    return segments;
+  }
+
+  private async fetchMeetingTranscript(recordingId: string): Promise<FathomTranscriptSegment[]> {
     try {
-      const response = await this.client.get(`/recordings/${recordingId}/transcript`);
+      const response = await this.request<FathomTranscriptResponse | string>({ method: 'GET', url: `/recordings/${recordingId}/transcript` });
+
+      // Fallback: handle if it's a simple string
+      if (typeof response.data === 'string') {
+        return parseTranscript(response.data);
+      }
 
       // Handle Fathom's actual API structure: { transcript: [ { speaker: {...}, text: "...", timestamp: "..." }, ... ] }
       if (response.data && Array.isArray(response.data.transcript)) {
-        // Convert array of transcript segments to plain text
-        const transcriptText = response.data.transcript
-          .map((segment: any) => {
-            const speaker = segment.speaker?.display_name || 'Unknown Speaker';
-            const time = segment.timestamp || '';
-            const text = segment.text || '';
-            return `[${time}] ${speaker}: ${text}`;
-          })
-          .join('\n');
-
-        console.error(`[INFO] Fetched transcript for ${recordingId}: ${transcriptText.length} chars, ${response.data.transcript.length} segments`);
-        return transcriptText;
-      }
+        const segments = normalizeTranscriptSegments(response.data.transcript);
 
-      // Fallback: handle if it's a simple string
-      if (typeof response.data === 'string') {
-        return response.data;
+        log.debug(`Fetched transcript for ${recordingId}: ${segments.length} segments`);
+        return segments;
       }
 
       if (response.data && typeof response.data.transcript === 'string') {
-        return response.data.transcript;
+        return parseTranscript(response.data.transcript);
       }
 
       // Log unexpected structure for debugging
-      console.error(`[WARNING] Unexpected transcript response for ${recordingId}:`,
-        JSON.stringify(response.data).substring(0, 500));
+      log.warn(`Unexpected transcript response for ${recordingId}`, { body: JSON.stringify(response.data).substring(0, 500) });
       throw new Error(`Unexpected transcript response structure for recording ${recordingId}`);
 
     } catch (error) {
@@ -157,8 +515,8 @@ export class FathomClient {
         // Handle specific error codes
         if (error.response?.status === 404) {
           // Transcript doesn't exist yet (meeting might be processing)
-          console.error(`[INFO] Transcript not available for recording ${recordingId} (404)`);
-          return '';
+          log.info(`Transcript not available for recording ${recordingId} (404)`);
+          return [];
         }
         if (error.response?.status === 401 || error.response?.status === 403) {
           // Auth issue - this is serious, throw it
@@ -171,24 +529,49 @@ export class FathomClient {
       }
 
       // For other errors, log and skip this transcript
-      console.error(`[ERROR] Failed to fetch transcript for ${recordingId}:`,
-        error instanceof Error ? error.message : 'Unknown error');
-      return '';
+      log.warn(`Failed to fetch transcript for ${recordingId}`, { error });
+      return [];
+    }
+  }
+
+  async *iterateMeetings(params?: FathomListMeetingsParams): AsyncGenerator<FathomMeeting> {
+    for await (const page of this.paginate(cursor => this.listMeetings({ ...params, cursor }), params?.cursor)) {
+      yield* page.items;
     }
   }
 
-  async listTeams(): Promise<FathomListTeamsResponse> {
+  async collectMeetings(params?: FathomListMeetingsParams, options: FathomPageOptions = {}): Promise<FathomCollectedPages<FathomMeeting>> {
+    return this.collectPages(cursor => this.listMeetings({ ...params, cursor }), { cursor: params?.cursor, ...options });
+  }
+
+  async listTeams(params?: FathomListTeamsParams): Promise<FathomListTeamsResponse> {
     try {
-      const response = await this.client.get<FathomListTeamsResponse>('/teams');
+      const response = await this.request<FathomListTeamsResponse>({
+        method: 'GET',
+        url: '/teams',
+        params: params?.cursor ? { cursor: params.cursor } : undefined
+      });
       return response.data;
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  async *iterateTeams(params?: FathomListTeamsParams): AsyncGenerator<FathomTeam> {
+    for await (const page of this.paginate(cursor => this.listTeams({ cursor }), params?.cursor)) {
+      yield* page.items;
+    }
+  }
+
+  async collectTeams(options: FathomPageOptions = {}): Promise<FathomCollectedPages<FathomTeam>> {
+    return this.collectPages(cursor => this.listTeams({ cursor }), options);
+  }
+
   async listTeamMembers(params: FathomListTeamMembersParams): Promise<FathomListTeamMembersResponse> {
     try {
-      const response = await this.client.get<FathomListTeamMembersResponse>(`/teams/${params.team_id}/members`, {
+      const response = await this.request<FathomListTeamMembersResponse>({
+        method: 'GET',
+        url: `/teams/${params.team_id}/members`,
         params: params.cursor ? { cursor: params.cursor } : undefined
       });
       return response.data;
@@ -197,9 +580,19 @@ export class FathomClient {
     }
   }
 
+  async *iterateTeamMembers(params: FathomListTeamMembersParams): AsyncGenerator<FathomTeamMember> {
+    for await (const page of this.paginate(cursor => this.listTeamMembers({ team_id: params.team_id, cursor }), params.cursor)) {
+      yield* page.items;
+    }
+  }
+
+  async collectTeamMembers(teamId: string, options: FathomPageOptions = {}): Promise<FathomCollectedPages<FathomTeamMember>> {
+    return this.collectPages(cursor => this.listTeamMembers({ team_id: teamId, cursor }), options);
+  }
+
   async createWebhook(params: FathomCreateWebhookParams): Promise<FathomCreateWebhookResponse> {
     try {
-      const response = await this.client.post<FathomCreateWebhookResponse>('/webhooks', params);
+      const response = await this.request<FathomCreateWebhookResponse>({ method: 'POST', url: '/webhooks', data: params });
       return response.data;
     } catch (error) {
       throw this.handleError(error);
@@ -208,12 +601,62 @@ export class FathomClient {
 
   async deleteWebhook(params: FathomDeleteWebhookParams): Promise<void> {
     try {
-      await this.client.delete(`/webhooks/${params.webhook_id}`);
+      await this.request({ method: 'DELETE', url: `/webhooks/${params.webhook_id}` });
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  // Yield pages starting at `cursor`, following next_cursor until the listing ends
+  private async *paginate<T>(
+    fetchPage: (cursor?: string) => Promise<{ items: T[]; next_cursor?: string }>,
+    cursor?: string
+  ): AsyncGenerator<{ items: T[]; next_cursor?: string }> {
+    const seen = new Set<string>();
+    do {
+      const page = await fetchPage(cursor);
+      yield page;
+      cursor = page.next_cursor;
+      // Guard against an API that hands back the same cursor forever
+      if (cursor && seen.has(cursor)) break;
+      if (cursor) seen.add(cursor);
+    } while (cursor);
+  }
+
+  // Collect items across pages until the listing ends or the limit / page cap is reached.
+  // When a page is cut short by `limit`, next_cursor resumes right after the last item returned.
+  private async collectPages<T>(
+    fetchPage: (cursor?: string) => Promise<{ items: T[]; next_cursor?: string }>,
+    options: FathomPageOptions
+  ): Promise<FathomCollectedPages<T>> {
+    const items: T[] = [];
+    const start = decodePageCursor(options.cursor);
+    let pageCursor = start.cursor;
+    let skip = start.offset;
+    let nextCursor: string | undefined;
+    let pagesFetched = 0;
+
+    for await (const page of this.paginate(fetchPage, start.cursor)) {
+      pagesFetched++;
+      const pageItems = page.items.slice(skip);
+      const room = options.limit !== undefined ? options.limit - items.length : Infinity;
+      if (pageItems.length > room) {
+        items.push(...pageItems.slice(0, room));
+        nextCursor = encodePageCursor(pageCursor, skip + room);
+        break;
+      }
+      items.push(...pageItems);
+      nextCursor = page.next_cursor;
+      pageCursor = page.next_cursor;
+      skip = 0;
+
+      if (options.limit !== undefined && items.length >= options.limit) break;
+      if (options.maxPages !== undefined && pagesFetched >= options.maxPages) break;
+    }
+
+    return { items, next_cursor: nextCursor, pages_fetched: pagesFetched };
+  }
+
   private formatParams(params?: FathomListMeetingsParams): Record<string, any> {
     if (!params) return {};
     
@@ -246,10 +689,85 @@ export class FathomClient {
     return formatted;
   }
 
+  // Every API call goes through here: paced by the per-key token bucket, capped by the
+  // concurrency limiter, and retried with backoff on 429, 5xx and network timeouts
+  private async request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    let waitedMs = 0;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.limiter.run(async () => {
+          await this.bucket.take();
+          return this.client.request<T>(config);
+        });
+        this.countResponse(config, String(response.status));
+        return response;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        this.countResponse(config, String(axiosError.response?.status ?? axiosError.code ?? 'error'));
+        if (axiosError.response?.status === 429) {
+          fathomApiRateLimited.inc();
+        }
+        if (attempt >= this.maxRetries || !this.isRetryable(error, config)) {
+          throw error;
+        }
+
+        const remainingMs = this.retryBudgetMs - waitedMs;
+        const retryAfterMs = parseRetryAfterMs(axiosError.response?.headers?.['retry-after']);
+        if (retryAfterMs !== undefined && retryAfterMs > remainingMs) {
+          if (axiosError.response?.status === 429) {
+            this.bucket.pause(Math.min(retryAfterMs, this.retryBudgetMs));
+          }
+          throw new Error(`Fathom asked to retry ${config.method} ${config.url} in ${Math.ceil(retryAfterMs / 1000)}s, ` +
+            `longer than the ${Math.round(remainingMs / 1000)}s left of the retry budget. Please try again later.`);
+        }
+        if (remainingMs <= 0) {
+          throw error;
+        }
+        const delayMs = Math.min(remainingMs, retryAfterMs !== undefined
+          ? retryAfterMs + backoffDelayMs(0, 250)
+          : backoffDelayMs(attempt));
+        waitedMs += delayMs;
+
+        if (axiosError.response?.status === 429) {
+          // Everyone sharing this key should back off, not just this request
+          this.bucket.pause(delayMs);
+        }
+
+        log.warn(`${config.method} ${config.url} failed (${axiosError.response?.status ?? axiosError.code}), ` +
+          `retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private countResponse(config: AxiosRequestConfig, status: string): void {
+    fathomApiResponses.inc({ method: (config.method ?? 'GET').toUpperCase(), endpoint: endpointLabel(config.url), status });
+  }
+
+  private isRetryable(error: unknown, config: AxiosRequestConfig): boolean {
+    if (!(error instanceof AxiosError)) {
+      return false;
+    }
+
+    const status = error.response?.status;
+    if (status === 429) {
+      return true;
+    }
+
+    // A POST that failed mid-flight may have been applied, so only retry requests that are safe to repeat
+    if (config.method === 'POST') {
+      return false;
+    }
+    if (status !== undefined) {
+      return status >= 500;
+    }
+    return ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN', 'ERR_NETWORK'].includes(error.code ?? '');
+  }
+
   private handleError(error: unknown): Error {
     if (error instanceof AxiosError) {
       if (error.response?.status === 429) {
-        return new Error('Rate limit exceeded. Please try again later.');
+        return new Error(`Rate limit exceeded after ${this.maxRetries} retries. Please try again later.`);
       }
       if (error.response?.status === 401) {
         return new Error('Invalid API key. Please check your Fathom API key.');
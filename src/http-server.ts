@@ -1,370 +1,330 @@
 #!/usr/bin/env node
 
-import express from 'express';
+import express, { Request, Response } from 'express';
 import cors from 'cors';
 import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-import {
-  ListToolsRequestSchema,
-  CallToolRequestSchema,
-  ListResourcesRequestSchema,
-  ListPromptsRequestSchema,
-  ListToolsRequest,
-  CallToolRequest,
-  ListResourcesRequest,
-  ListPromptsRequest
-} from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
-import { zodToJsonSchema } from "zod-to-json-schema";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { createAccessPoliciesFromEnv } from "./access-policy.js";
+import { MAX_AUDIT_QUERY_LIMIT, createAuditLogFromEnv } from "./audit-log.js";
+import { READ_SCOPE, authPrincipal, createAuthConfigFromEnv, protectedResourceMetadataHandler, requireAdminToken } from "./auth.js";
+import { AccountError, FathomAccount, API_KEY_HEADER, createFathomAccountsFromEnv } from "./fathom-accounts.js";
 import { FathomClient } from "./fathom-client.js";
+import { createLogger, jsonLogs } from "./logger.js";
+import { createMcpServer } from "./mcp-server.js";
+import { createMeetingRouterFromEnv } from "./meeting-router.js";
+import { activeSessions, metrics } from "./metrics.js";
+import { Session, createSessionManagerFromEnv } from "./session-manager.js";
+import { shutdownTracing } from "./tracing.js";
+import { WebhookVerificationError, isTestDelivery } from "./webhook-receiver.js";
+import { z } from "zod";
 import dotenv from "dotenv";
 
 dotenv.config();
 
-const ListMeetingsSchema = z.object({
-  calendar_invitees: z.array(z.string()).optional().describe("Filter by attendee email addresses"),
-  calendar_invitees_domains: z.array(z.string()).optional().describe("Filter by company domains"),
-  created_after: z.string().optional().describe("Filter meetings created after this date (ISO 8601)"),
-  created_before: z.string().optional().describe("Filter meetings created before this date (ISO 8601)"),
-  include_transcript: z.boolean().optional().default(false).describe("Include meeting transcripts"),
-  meeting_type: z.enum(['all', 'internal', 'external']).optional().default('all').describe("Filter by meeting type"),
-  recorded_by: z.array(z.string()).optional().describe("Filter by meeting owner email addresses"),
-  teams: z.array(z.string()).optional().describe("Filter by team names"),
-  limit: z.number().optional().default(50).describe("Maximum number of meetings to return")
-});
-
-const SearchMeetingsSchema = z.object({
-  search_term: z.string().describe("Search term to find in meeting titles, summaries, action items, or transcripts"),
-  include_transcript: z.boolean().optional().default(true).describe("Search within full meeting transcripts (default: true). When enabled, fetches and searches transcripts of up to 10 recent meetings. Use this for semantic queries like 'discussed pricing' or 'talked about Claude Code'.")
-});
+const log = createLogger('HTTP');
+const webhookLog = createLogger('WEBHOOK');
 
-const GetMeetingTranscriptSchema = z.object({
-  recording_id: z.string().describe("The recording ID of the meeting"),
-  summarize: z.boolean().optional().default(false).describe("Whether to return a request for Claude to summarize the transcript")
-});
-
-const ListTeamsSchema = z.object({});
-
-const ListTeamMembersSchema = z.object({
-  team_id: z.string().describe("The ID of the team to list members for")
-});
+const PORT = process.env.PORT || 8080;
 
-const CreateWebhookSchema = z.object({
-  url: z.string().describe("The URL to send webhook notifications to"),
-  include_transcript: z.boolean().optional().default(false).describe("Include meeting transcripts in webhook payload"),
-  include_summary: z.boolean().optional().default(true).describe("Include meeting summaries in webhook payload"),
-  include_action_items: z.boolean().optional().default(true).describe("Include action items in webhook payload")
-});
+// OAuth bearer tokens are required on the MCP endpoints once a token verifier is configured
+const authConfig = createAuthConfigFromEnv(PORT);
+if (!authConfig) {
+  log.warn(`MCP_AUTH_JWKS_FILE and MCP_AUTH_STATIC_TOKENS are not set - /mcp, /sse and /messages accept unauthenticated requests, with the ${READ_SCOPE} scope only`);
+}
 
-const DeleteWebhookSchema = z.object({
-  webhook_id: z.string().describe("The ID of the webhook to delete")
+// Each session uses the Fathom API key sent in the X-Fathom-Api-Key header on initialize.
+// FATHOM_API_KEY is optional here: when set, sessions without the header fall back to it.
+// Secrets from FATHOM_WEBHOOK_SECRET (comma-separated) belong to that shared key and survive
+// restarts; secrets of webhooks created through this server are kept in each account's
+// webhook registry and loaded for every stored account on startup. Keys are checked with
+// Fathom before an account is created, and idle accounts beyond MCP_MAX_ACCOUNTS are dropped.
+const accounts = createFathomAccountsFromEnv({
+  sharedApiKey: process.env.FATHOM_API_KEY,
+  sharedWebhookSecrets: process.env.FATHOM_WEBHOOK_SECRET?.split(',').filter(Boolean) ?? [],
+  inUse: accountId => sessions.hasAccount(accountId)
 });
 
-const apiKey = process.env.FATHOM_API_KEY;
-if (!apiKey) {
-  console.error("Error: FATHOM_API_KEY environment variable is required");
-  console.error("Please set it in your environment variables or Cloud Run configuration");
-  process.exit(1);
+if (!accounts.hasSharedApiKey) {
+  log.info(`FATHOM_API_KEY is not set - every session must send its own key in the ${API_KEY_HEADER} header`);
 }
 
-const fathomClient = new FathomClient(apiKey);
-
-// Function to create and configure a new MCP server instance
-function createMcpServer(): Server {
-  const server = new Server({
-    name: "mcp-fathom-server",
-    version: "2.0.0"
-  }, {
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {}
-    }
-  });
-
-  server.setRequestHandler(ListToolsRequestSchema, async (request: ListToolsRequest) => ({
-    tools: [
-      {
-        name: "list_meetings",
-        description: "List Fathom meetings with optional filters. Returns meeting titles, summaries, dates, and participants.",
-        inputSchema: zodToJsonSchema(ListMeetingsSchema)
-      },
-      {
-        name: "search_meetings",
-        description: "Search for meetings containing keywords in titles, summaries, action items, AND full transcripts (default). Searches last 30 days. By default, fetches and searches transcripts of up to 10 recent meetings. Best for semantic queries like 'discussed pricing' or 'talked about Claude Code' where the topic may not appear in titles/summaries.",
-        inputSchema: zodToJsonSchema(SearchMeetingsSchema)
-      },
-      {
-        name: "get_meeting_transcript",
-        description: "Get the full transcript of a specific meeting by recording ID. Useful for detailed analysis or summarization of meeting content.",
-        inputSchema: zodToJsonSchema(GetMeetingTranscriptSchema)
-      },
-      {
-        name: "list_teams",
-        description: "List all teams accessible to the authenticated user.",
-        inputSchema: zodToJsonSchema(ListTeamsSchema)
-      },
-      {
-        name: "list_team_members",
-        description: "List all members of a specific team.",
-        inputSchema: zodToJsonSchema(ListTeamMembersSchema)
-      },
-      {
-        name: "create_webhook",
-        description: "Create a webhook to receive real-time notifications when new meetings are ready. Returns webhook ID and secret for verification.",
-        inputSchema: zodToJsonSchema(CreateWebhookSchema)
-      },
-      {
-        name: "delete_webhook",
-        description: "Delete an existing webhook by its ID.",
-        inputSchema: zodToJsonSchema(DeleteWebhookSchema)
-      }
-    ]
-  }));
-
-  // Add stub handlers for resources and prompts
-  server.setRequestHandler(ListResourcesRequestSchema, async (request: ListResourcesRequest) => ({
-    resources: []
-  }));
-
-  server.setRequestHandler(ListPromptsRequestSchema, async (request: ListPromptsRequest) => ({
-    prompts: []
-  }));
+// Optional fan-out of received meetings to Slack, HTTP endpoints and email (FATHOM_ROUTES_FILE)
+const meetingRouter = createMeetingRouterFromEnv();
 
-  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
-    const { name, arguments: args } = request.params;
+// Optional limits on which meetings each caller can see (FATHOM_ACCESS_POLICY_FILE)
+const accessPolicies = createAccessPoliciesFromEnv();
 
-    try {
-      if (name === "list_meetings") {
-        const params = ListMeetingsSchema.parse(args);
-        const limit = params.limit || 50;
-        const { limit: _, ...apiParams } = params;
-
-        console.error(`[list_meetings] Fetching meetings with params:`, JSON.stringify(apiParams));
-        const response = await fathomClient.listMeetings(apiParams);
-        console.error(`[list_meetings] Got ${response.items.length} meetings`);
-        const meetings = response.items.slice(0, limit);
-
-        const formattedMeetings = meetings.map(meeting => ({
-          title: meeting.title || meeting.meeting_title,
-          date: meeting.scheduled_start_time || meeting.created_at,
-          url: meeting.share_url || meeting.url,
-          recording_id: meeting.recording_id,
-          attendees: meeting.calendar_invitees,
-          recorded_by: meeting.recorded_by,
-          summary: meeting.default_summary,
-          action_items: meeting.action_items,
-          transcript: params.include_transcript ? meeting.transcript : undefined
-        }));
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              total_found: response.items.length,
-              showing: meetings.length,
-              meetings: formattedMeetings,
-              has_more: !!response.next_cursor
-            }, null, 2)
-          }]
-        };
-      }
+// Optional JSON Lines record of every tool call, resource read and prompt (FATHOM_AUDIT_LOG)
+const auditLog = createAuditLogFromEnv();
 
-      if (name === "search_meetings") {
-        const params = SearchMeetingsSchema.parse(args);
-
-        console.error(`[search_meetings] Searching for: "${params.search_term}" (transcript=${params.include_transcript})`);
-        const meetings = await fathomClient.searchMeetings(
-          params.search_term,
-          params.include_transcript
-        );
-        console.error(`[search_meetings] Found ${meetings.length} matching meetings`);
-
-        const formattedMeetings = meetings.map(meeting => ({
-          title: meeting.title || meeting.meeting_title,
-          date: meeting.scheduled_start_time || meeting.created_at,
-          url: meeting.share_url || meeting.url,
-          recording_id: meeting.recording_id,
-          attendees: meeting.calendar_invitees,
-          recorded_by: meeting.recorded_by,
-          summary: meeting.default_summary,
-          action_items: meeting.action_items,
-          transcript: params.include_transcript ? meeting.transcript : undefined,
-          relevance: params.include_transcript && meeting.transcript?.toLowerCase().includes(params.search_term.toLowerCase())
-            ? "Found in transcript"
-            : "Found in title/summary"
-        }));
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              search_term: params.search_term,
-              total_found: meetings.length,
-              meetings: formattedMeetings
-            }, null, 2)
-          }]
-        };
-      }
+// Shared secret for the /admin endpoints, which are not mounted without it
+const adminToken = process.env.MCP_ADMIN_TOKEN;
 
-      if (name === "get_meeting_transcript") {
-        const params = GetMeetingTranscriptSchema.parse(args);
-
-        console.error(`[get_meeting_transcript] Fetching transcript for recording: ${params.recording_id}`);
-        const transcript = await fathomClient.getMeetingTranscript(params.recording_id);
-        console.error(`[get_meeting_transcript] Got transcript (${transcript.length} characters)`);
-
-        // Handle empty transcript
-        if (!transcript || transcript.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: `No transcript available for recording ${params.recording_id}. The meeting may still be processing, or transcription may not be available.`
-            }]
-          };
-        }
-
-        return {
-          content: [{
-            type: "text",
-            text: params.summarize
-              ? `Please summarize this meeting transcript:\n\n${transcript}`
-              : transcript
-          }]
-        };
-      }
-
-      if (name === "list_teams") {
-        console.error(`[list_teams] Fetching teams`);
-        const response = await fathomClient.listTeams();
-        console.error(`[list_teams] Got ${response.items.length} teams`);
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              total_teams: response.items.length,
-              teams: response.items,
-              has_more: !!response.next_cursor
-            }, null, 2)
-          }]
-        };
-      }
+// Open sessions with idle timeouts and a cap, shared between instances through
+// MCP_SESSION_STORE_URL when set
+const sessions = createSessionManagerFromEnv();
 
-      if (name === "list_team_members") {
-        const params = ListTeamMembersSchema.parse(args);
-
-        console.error(`[list_team_members] Fetching members for team: ${params.team_id}`);
-        const response = await fathomClient.listTeamMembers({ team_id: params.team_id });
-        console.error(`[list_team_members] Got ${response.items.length} members`);
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              team_id: params.team_id,
-              total_members: response.items.length,
-              members: response.items,
-              has_more: !!response.next_cursor
-            }, null, 2)
-          }]
-        };
-      }
+// Resolve the caller's Fathom account and build the per-session client and MCP server
+async function createSession(req: Request): Promise<{ account: FathomAccount; fathomClient: FathomClient; server: Server } | undefined> {
+  const account = await accounts.resolve(req.headers);
+  if (!account) {
+    return undefined;
+  }
 
-      if (name === "create_webhook") {
-        const params = CreateWebhookSchema.parse(args);
-
-        console.error(`[create_webhook] Creating webhook for URL: ${params.url}`);
-        const response = await fathomClient.createWebhook(params);
-        console.error(`[create_webhook] Created webhook: ${response.webhook.id}`);
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              webhook: response.webhook,
-              secret: response.secret,
-              note: "Save this secret securely - it's needed to verify webhook signatures and won't be shown again."
-            }, null, 2)
-          }]
-        };
-      }
+  const fathomClient = new FathomClient(account.apiKey!, { store: account.meetingStore, vectorIndex: account.vectorIndex, searchIndex: account.searchIndex });
+  const server = createMcpServer({
+    fathomClient,
+    meetingStore: account.meetingStore,
+    actionItems: account.actionItems,
+    webhookReceiver: account.webhookReceiver,
+    webhooks: account.webhooks,
+    redactor: account.redactor,
+    access: accessPolicies?.forCaller(req.auth, fathomClient, account.id),
+    audit: auditLog,
+    accountId: account.id
+  });
+  return { account, fathomClient, server };
+}
 
-      if (name === "delete_webhook") {
-        const params = DeleteWebhookSchema.parse(args);
-
-        console.error(`[delete_webhook] Deleting webhook: ${params.webhook_id}`);
-        await fathomClient.deleteWebhook(params);
-        console.error(`[delete_webhook] Deleted webhook: ${params.webhook_id}`);
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              success: true,
-              webhook_id: params.webhook_id,
-              message: "Webhook deleted successfully"
-            }, null, 2)
-          }]
-        };
-      }
+function sendMissingApiKey(res: Response): void {
+  res.status(401).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32001,
+      message: `Unauthorized: send your Fathom API key in the ${API_KEY_HEADER} header`,
+    },
+    id: null,
+  });
+}
 
-      throw new Error(`Unknown tool: ${name}`);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      console.error(`Error in ${name}:`, errorMessage);
-
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ error: errorMessage }, null, 2)
-        }],
-        isError: true
-      };
-    }
+function sendAccountError(res: Response, error: AccountError): void {
+  res.status(error.status).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32001,
+      message: error.status === 401 ? `Unauthorized: ${error.message}` : error.message,
+    },
+    id: null,
   });
+}
 
-  return server;
+function sendSessionForbidden(res: Response): void {
+  res.status(403).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32001,
+      message: 'Forbidden: session belongs to a different user',
+    },
+    id: null,
+  });
 }
 
 // Create Express application
 const app = express();
+
+// Fathom webhook deliveries - registered before express.json() because the signature
+// is computed over the raw request body
+app.post('/webhooks/fathom', express.raw({ type: '*/*', limit: '10mb' }), async (req, res) => {
+  try {
+    const { account, meeting } = await accounts.receiveWebhook(req.headers, Buffer.isBuffer(req.body) ? req.body : '');
+    if (isTestDelivery(req.headers)) {
+      res.status(200).json({ received: true, test: true, account: account.id });
+      return;
+    }
+    await account.meetingStore?.upsertMeetings([meeting]);
+    const segments = meeting.recording_id ? account.webhookReceiver.getTranscript(meeting.recording_id) : undefined;
+    if (meeting.recording_id && segments) {
+      await account.meetingStore?.saveTranscript(meeting.recording_id, segments);
+    }
+    webhookLog.info(`Received meeting ${meeting.recording_id ?? '(no recording ID)'} for account ${account.id}`);
+    res.status(200).json({ received: true, recording_id: meeting.recording_id ?? null });
+
+    // Routed after answering, so slow or failing sinks never make Fathom redeliver
+    meetingRouter?.route(meeting, {
+      accountId: account.id,
+      fathomClient: account.apiKey ? new FathomClient(account.apiKey, { store: account.meetingStore }) : undefined,
+      dataDir: account.meetingStore?.directory
+    }).catch(error => webhookLog.error(`Could not route meeting ${meeting.recording_id ?? '(no recording ID)'}`, { error }));
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      webhookLog.warn(`Rejected delivery: ${error.message}`);
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    webhookLog.error('Error handling webhook delivery', { error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 app.use(express.json());
 
 // Configure CORS to expose Mcp-Session-Id header for browser-based clients
 app.use(cors({
   origin: '*', // Allow all origins - adjust as needed for production
-  exposedHeaders: ['Mcp-Session-Id']
+  exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate']
 }));
 
-// Store transports by session ID
-const transports: Record<string, SSEServerTransport | StreamableHTTPServerTransport> = {};
+if (authConfig) {
+  // Protected resource metadata tells clients which authorization server issues our tokens
+  const metadataHandler = protectedResourceMetadataHandler(authConfig);
+  app.get('/.well-known/oauth-protected-resource', metadataHandler);
+  app.get(`/.well-known/oauth-protected-resource${authConfig.resourceUrl.pathname}`, metadataHandler);
+
+  app.use(['/mcp', '/sse', '/messages'], requireBearerAuth({
+    verifier: authConfig.verifier,
+    requiredScopes: [READ_SCOPE],
+    resourceMetadataUrl: getOAuthProtectedResourceMetadataUrl(authConfig.resourceUrl)
+  }));
+}
 
 // Health check endpoint for Cloud Run
 app.get('/health', (req, res) => {
   res.status(200).json({ status: 'ok', service: 'mcp-fathom-server' });
 });
 
+// Prometheus scrape endpoint, behind the admin token like the /admin endpoints
+if (adminToken) {
+  app.get('/metrics', requireAdminToken(adminToken), async (req, res) => {
+    // Sessions this instance holds, by transport, counted when scraped
+    activeSessions.reset();
+    for (const [transport, count] of Object.entries(sessions.countByTransport())) {
+      activeSessions.set({ transport }, count);
+    }
+    res.status(200).type(metrics.contentType).send(await metrics.metrics());
+  });
+}
+
+const auditQuerySchema = z.object({
+  since: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  type: z.enum(['tool', 'resource', 'prompt']).optional(),
+  name: z.string().optional(),
+  session_id: z.string().optional(),
+  principal: z.string().optional(),
+  recording_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_QUERY_LIMIT).default(100)
+});
+
+if (adminToken) {
+  app.use('/admin', requireAdminToken(adminToken));
+
+  // Audit entries, newest first, e.g. /admin/audit?recording_id=123&since=2026-01-01T00:00:00Z
+  app.get('/admin/audit', async (req, res) => {
+    if (!auditLog) {
+      res.status(404).json({ error: 'Audit logging is off; set FATHOM_AUDIT_LOG=true' });
+      return;
+    }
+    const query = auditQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      const issue = query.error.issues[0];
+      res.status(400).json({ error: `Invalid ${issue.path.join('.')}: ${issue.message}` });
+      return;
+    }
+    try {
+      const entries = await auditLog.query(query.data);
+      res.status(200).json({ count: entries.length, entries });
+    } catch (error) {
+      log.error('Audit query failed', { error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Open sessions on every instance sharing the session store, most recently active first
+  app.get('/admin/sessions', async (req, res) => {
+    try {
+      const open = await sessions.list();
+      res.status(200).json({ count: open.length, instance_id: sessions.instanceId, sessions: open });
+    } catch (error) {
+      log.error('Could not list sessions', { error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/admin/sessions/:id', async (req, res) => {
+    try {
+      if (!(await sessions.terminate(req.params.id))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      log.info(`Terminated session ${req.params.id} through the admin endpoint`);
+      res.status(204).end();
+    } catch (error) {
+      log.error(`Could not terminate session ${req.params.id}`, { error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
+
+// Sessions being rebuilt from the store, so concurrent requests share one transport
+const restoring = new Map<string, Promise<Session | undefined>>();
+
+// Rebuild a Streamable HTTP session that another instance, or this one before a restart,
+// opened. The caller must resolve to the same Fathom account: API keys are never stored,
+// so the key has to come from the request headers or FATHOM_API_KEY.
+function restoreSession(sessionId: string, req: Request): Promise<Session | undefined> {
+  let pending = restoring.get(sessionId);
+  if (!pending) {
+    pending = (async () => {
+      const record = await sessions.stored(sessionId);
+      if (!record || record.transport !== 'streamable_http' || record.principal !== authPrincipal(req.auth)) {
+        return undefined;
+      }
+      const created = await createSession(req);
+      if (!created || created.account.id !== record.account_id) {
+        return undefined;
+      }
+
+      // Without a generator the transport skips its own session check, which only knows IDs
+      // it generated; the ID was matched against the store above instead
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      transport.sessionId = sessionId;
+      transport.onclose = () => {
+        void sessions.closed(sessionId);
+      };
+      const session: Session = { transport, account: created.account, fathomClient: created.fathomClient, principal: record.principal };
+      await created.server.connect(transport);
+      await sessions.restore(session, record);
+      return session;
+    })().finally(() => restoring.delete(sessionId));
+    restoring.set(sessionId, pending);
+  }
+  return pending;
+}
+
 //=============================================================================
 // STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
 //=============================================================================
 app.all('/mcp', async (req, res) => {
-  console.log(`Received ${req.method} request to /mcp`);
+  log.debug(`Received ${req.method} request to /mcp`);
 
   try {
     // Check for existing session ID
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     let transport: StreamableHTTPServerTransport;
+    const existing = sessionId ? sessions.get(sessionId) ?? await restoreSession(sessionId, req) : undefined;
+
+    if (sessionId && existing) {
+      const existingTransport = existing.transport;
 
-    if (sessionId && transports[sessionId]) {
-      const existingTransport = transports[sessionId];
+      if (existing.principal !== authPrincipal(req.auth)) {
+        sendSessionForbidden(res);
+        return;
+      }
 
       if (existingTransport instanceof StreamableHTTPServerTransport) {
         // Reuse existing transport
         transport = existingTransport;
+        sessions.touch(sessionId);
+        if (req.method === 'GET') {
+          // The client's standalone SSE stream, open until it disconnects
+          sessions.streamOpened(sessionId);
+          res.on('close', () => sessions.streamClosed(sessionId));
+        }
       } else {
         // Transport exists but is not a StreamableHTTPServerTransport
         res.status(400).json({
@@ -378,34 +338,53 @@ app.all('/mcp', async (req, res) => {
         return;
       }
     } else if (!sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
+      const session = await createSession(req);
+      if (!session) {
+        sendMissingApiKey(res);
+        return;
+      }
+
       // New session - create transport
       transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
-        onsessioninitialized: (sessionId) => {
-          console.log(`StreamableHTTP session initialized with ID: ${sessionId}`);
-          transports[sessionId] = transport;
+        onsessioninitialized: async (sessionId) => {
+          await sessions.open(sessionId, {
+            transport,
+            account: session.account,
+            fathomClient: session.fathomClient,
+            principal: authPrincipal(req.auth)
+          }, { transport: 'streamable_http', client_id: req.auth?.clientId });
         }
       });
 
       // Set up onclose handler to clean up transport when closed
       transport.onclose = () => {
         const sid = transport.sessionId;
-        if (sid && transports[sid]) {
-          console.log(`Transport closed for session ${sid}, removing from transports map`);
-          delete transports[sid];
+        if (sid) {
+          void sessions.closed(sid);
         }
       };
 
-      // Connect the transport to the MCP server
-      const server = createMcpServer();
-      await server.connect(transport);
+      // Connect the transport to the session's MCP server
+      await session.server.connect(transport);
+    } else if (sessionId) {
+      // Expired, terminated or never opened; the client should initialize a new session
+      res.status(404).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: 'Session not found',
+        },
+        id: null,
+      });
+      return;
     } else {
       // Invalid request - no session ID or not initialization request
       res.status(400).json({
         jsonrpc: '2.0',
         error: {
           code: -32000,
-          message: 'Bad Request: No valid session ID provided or not an initialize request',
+          message: 'Bad Request: No session ID provided or not an initialize request',
         },
         id: null,
       });
@@ -415,7 +394,11 @@ app.all('/mcp', async (req, res) => {
     // Handle the request with the transport
     await transport.handleRequest(req, res, req.body);
   } catch (error) {
-    console.error('Error handling MCP request:', error);
+    if (error instanceof AccountError) {
+      sendAccountError(res, error);
+      return;
+    }
+    log.error('Error handling MCP request', { error });
     if (!res.headersSent) {
       res.status(500).json({
         jsonrpc: '2.0',
@@ -433,24 +416,48 @@ app.all('/mcp', async (req, res) => {
 // DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
 //=============================================================================
 app.get('/sse', async (req, res) => {
-  console.log('Received GET request to /sse (deprecated SSE transport)');
+  log.debug('Received GET request to /sse (deprecated SSE transport)');
+
+  let session;
+  try {
+    session = await createSession(req);
+  } catch (error) {
+    if (!(error instanceof AccountError)) {
+      throw error;
+    }
+    sendAccountError(res, error);
+    return;
+  }
+  if (!session) {
+    sendMissingApiKey(res);
+    return;
+  }
 
   const transport = new SSEServerTransport('/messages', res);
-  transports[transport.sessionId] = transport;
+  await sessions.open(transport.sessionId, {
+    transport,
+    account: session.account,
+    fathomClient: session.fathomClient,
+    principal: authPrincipal(req.auth)
+  }, { transport: 'sse', client_id: req.auth?.clientId });
+  sessions.streamOpened(transport.sessionId);
 
   res.on("close", () => {
-    delete transports[transport.sessionId];
+    void sessions.closed(transport.sessionId);
   });
 
-  const server = createMcpServer();
-  await server.connect(transport);
+  await session.server.connect(transport);
 });
 
 app.post("/messages", async (req, res) => {
   const sessionId = req.query.sessionId as string;
-  const existingTransport = transports[sessionId];
+  const existing = sessions.get(sessionId);
+  const existingTransport = existing?.transport;
 
-  if (existingTransport instanceof SSEServerTransport) {
+  if (existing && existing.principal !== authPrincipal(req.auth)) {
+    sendSessionForbidden(res);
+  } else if (existingTransport instanceof SSEServerTransport) {
+    sessions.touch(sessionId);
     await existingTransport.handlePostMessage(req, res, req.body);
   } else if (existingTransport) {
     res.status(400).json({
@@ -467,13 +474,17 @@ app.post("/messages", async (req, res) => {
 });
 
 // Start the server
-const PORT = process.env.PORT || 8080;
-
 async function main() {
+  sessions.start();
   app.listen(PORT, () => {
-    console.error(`Fathom MCP Server (HTTP) started on port ${PORT}`);
-    console.error(`Connected to Fathom API`);
-    console.error(`
+    log.info(`Fathom MCP Server (HTTP) started on port ${PORT}`);
+    log.info(accounts.hasSharedApiKey
+      ? `Connected to Fathom API (sessions may override the key with ${API_KEY_HEADER})`
+      : `Connected to Fathom API (per-session keys via ${API_KEY_HEADER})`);
+    if (jsonLogs()) {
+      return;
+    }
+    process.stderr.write(`
 ==============================================
 SUPPORTED TRANSPORT OPTIONS:
 
@@ -485,16 +496,54 @@ SUPPORTED TRANSPORT OPTIONS:
      - Establish SSE stream with GET to /mcp
      - Send requests with POST to /mcp
      - Terminate session with DELETE to /mcp
+     - Send ${API_KEY_HEADER}: <your Fathom API key> on initialize
 
 2. HTTP + SSE (Protocol version: 2024-11-05)
    Endpoints: /sse (GET) and /messages (POST)
    Usage:
-     - Establish SSE stream with GET to /sse
+     - Establish SSE stream with GET to /sse (with ${API_KEY_HEADER})
      - Send requests with POST to /messages?sessionId=<id>
 
-3. Health Check
+3. Fathom Webhooks
+   Endpoint: /webhooks/fathom
+   Method: POST
+   Usage:
+     - Point create_webhook at https://<host>/webhooks/fathom
+     - Secrets of webhooks created through this server are reloaded from the registry on restart
+     - Without the local store, set FATHOM_WEBHOOK_SECRET so deliveries verify after a restart
+     - Set FATHOM_ROUTES_FILE to forward received meetings to Slack, HTTP endpoints or email
+
+4. OAuth Protected Resource Metadata
+   Endpoint: /.well-known/oauth-protected-resource
+   Method: GET
+   Usage:
+     - Served when MCP_AUTH_JWKS_FILE or MCP_AUTH_STATIC_TOKENS is set
+     - /mcp, /sse and /messages then require Authorization: Bearer <token>
+
+5. Health Check
    Endpoint: /health
    Method: GET
+
+6. Audit Log
+   Endpoint: /admin/audit
+   Method: GET
+   Usage:
+     - Served when MCP_ADMIN_TOKEN is set; send Authorization: Bearer <admin token>
+     - Needs FATHOM_AUDIT_LOG=true; filter with since, until, type, name, session_id, principal, recording_id and limit
+
+7. Prometheus Metrics
+   Endpoint: /metrics
+   Method: GET
+   Usage:
+     - Served when MCP_ADMIN_TOKEN is set; send Authorization: Bearer <admin token>
+     - Tool call counts and latency, Fathom API status codes, rate-limit hits, open sessions and process metrics
+
+8. Sessions
+   Endpoints: /admin/sessions (GET) and /admin/sessions/<id> (DELETE)
+   Usage:
+     - Served when MCP_ADMIN_TOKEN is set; send Authorization: Bearer <admin token>
+     - Sessions without requests or an open stream close after MCP_SESSION_IDLE_TIMEOUT seconds; MCP_MAX_SESSIONS caps how many stay open
+     - Set MCP_SESSION_STORE_URL to a Redis URL to share sessions between instances
 ==============================================
 `);
   });
@@ -502,24 +551,17 @@ SUPPORTED TRANSPORT OPTIONS:
 
 // Handle server shutdown
 process.on('SIGINT', async () => {
-  console.log('Shutting down server...');
+  log.info('Shutting down server...');
 
   // Close all active transports
-  for (const sessionId in transports) {
-    try {
-      console.log(`Closing transport for session ${sessionId}`);
-      await transports[sessionId].close();
-      delete transports[sessionId];
-    } catch (error) {
-      console.error(`Error closing transport for session ${sessionId}:`, error);
-    }
-  }
+  await sessions.shutdown();
 
-  console.log('Server shutdown complete');
+  await shutdownTracing();
+  log.info('Server shutdown complete');
   process.exit(0);
 });
 
 main().catch((error) => {
-  console.error("Fatal error:", error);
+  log.error("Fatal error", { error });
   process.exit(1);
 });
@@ -0,0 +1,111 @@
+import { activeSpan } from './tracing.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+interface LogSettings {
+  level: LogLevel;
+  json: boolean;
+}
+
+let settings: LogSettings | undefined;
+
+// Read on first use rather than at import, so values loaded by dotenv apply
+//   LOG_LEVEL    debug, info (default), warn or error
+//   LOG_FORMAT   text (default) or json, one object per line
+function logSettings(): LogSettings {
+  if (!settings) {
+    const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+    settings = {
+      level: level && level in LEVEL_ORDER ? level : 'info',
+      json: process.env.LOG_FORMAT?.toLowerCase() === 'json'
+    };
+  }
+  return settings;
+}
+
+// Override LOG_LEVEL, e.g. for a command-line flag
+export function setLogLevel(level: LogLevel): void {
+  settings = { ...logSettings(), level };
+}
+
+// Whether log lines are JSON objects, which multi-line output such as a banner would break
+export function jsonLogs(): boolean {
+  return logSettings().json;
+}
+
+// Errors are logged by message; the stack only matters for the unexpected ones, logged at error level
+function serializeValue(value: unknown, level: LogLevel): unknown {
+  if (value instanceof Error) {
+    return level === 'error' && value.stack ? value.stack : value.message;
+  }
+  return value;
+}
+
+function textValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+  }
+  return value === undefined ? 'undefined' : JSON.stringify(value) ?? String(value);
+}
+
+// Leveled logger for one part of the server. Everything goes to stderr: over stdio, stdout
+// carries the MCP protocol.
+export class Logger {
+  constructor(readonly component: string) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[logSettings().level];
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const values = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, serializeValue(value, level)] as const);
+
+    if (logSettings().json) {
+      const span = activeSpan();
+      process.stderr.write(`${JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        component: this.component,
+        message,
+        ...Object.fromEntries(values),
+        trace_id: span?.traceId,
+        span_id: span?.spanId
+      })}\n`);
+      return;
+    }
+
+    const prefix = level === 'warn' || level === 'error' ? `[${this.component}] ${level.toUpperCase()} ` : `[${this.component}] `;
+    const suffix = values.map(([key, value]) => ` ${key}=${textValue(value)}`).join('');
+    process.stderr.write(`${prefix}${message}${suffix}\n`);
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
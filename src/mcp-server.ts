@@ -0,0 +1,27 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { registerNotifications } from "./notifications.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { ToolContext, registerTools } from "./tools.js";
+
+// Create and configure an MCP server instance; shared by the stdio and HTTP transports
+export function createMcpServer(context: ToolContext): Server {
+  const server = new Server({
+    name: "mcp-fathom-server",
+    version: "2.0.0"
+  }, {
+    capabilities: {
+      tools: {},
+      resources: { listChanged: true, subscribe: true },
+      prompts: {},
+      logging: {}
+    }
+  });
+
+  registerTools(server, context);
+  registerResources(server, context);
+  registerPrompts(server, context);
+  server.onclose = registerNotifications(server, context);
+
+  return server;
+}
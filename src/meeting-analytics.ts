@@ -0,0 +1,159 @@
+import { timestampToSeconds } from './transcript.js';
+import { FathomMeeting, FathomTranscriptSegment } from './types.js';
+
+// A segment runs until the next one starts, but a long gap is silence or a break rather than
+// one person talking, so no single segment counts for more than this
+const MAX_SEGMENT_SECONDS = 5 * 60;
+// Used for a meeting's last segment, which has no following timestamp: ~150 words per minute
+const SECONDS_PER_WORD = 0.4;
+
+export interface SpeakerTalkTime {
+  speaker: string;
+  email?: string;
+  talk_time_minutes: number;
+  share: number;
+  meetings: number;
+  segments: number;
+}
+
+export interface RecorderLoad {
+  recorded_by: string;
+  meetings: number;
+  hours: number;
+  internal: number;
+  external: number;
+}
+
+export interface MeetingAnalytics {
+  meetings: number;
+  total_hours: number;
+  average_minutes?: number;
+  meetings_with_duration: number;
+  by_type: Record<'internal' | 'external' | 'unknown', { meetings: number; hours: number }>;
+  by_recorder: RecorderLoad[];
+  top_attendees: { email: string; meetings: number }[];
+  talk_time: {
+    transcripts_analyzed: number;
+    average_speakers_per_meeting?: number;
+    speakers: SpeakerTalkTime[];
+  };
+}
+
+const round = (value: number, places: number = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Length in minutes from the recording times, falling back to the calendar slot
+export function meetingDurationMinutes(meeting: FathomMeeting): number | undefined {
+  const start = Date.parse(meeting.recording_start_time || meeting.scheduled_start_time || '');
+  const end = Date.parse(meeting.recording_end_time || meeting.scheduled_end_time || '');
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+    return undefined;
+  }
+  return (end - start) / 60000;
+}
+
+// Seconds each speaker held the floor in one transcript, keyed by invitee email or display name
+export function speakerSeconds(segments: FathomTranscriptSegment[]): Map<string, { speaker: string; email?: string; seconds: number; segments: number }> {
+  const timed = segments
+    .map(segment => ({ segment, start: timestampToSeconds(segment.timestamp) }))
+    .filter((entry): entry is { segment: FathomTranscriptSegment; start: number } => entry.start !== undefined)
+    .sort((a, b) => a.start - b.start);
+
+  const totals = new Map<string, { speaker: string; email?: string; seconds: number; segments: number }>();
+  timed.forEach(({ segment, start }, index) => {
+    const next = timed[index + 1]?.start;
+    const estimate = segment.text.split(/\s+/).filter(Boolean).length * SECONDS_PER_WORD;
+    const seconds = Math.min(next !== undefined ? next - start : estimate, MAX_SEGMENT_SECONDS);
+
+    const email = segment.speaker.matched_calendar_invitee_email || undefined;
+    const key = (email || segment.speaker.display_name).toLowerCase();
+    const entry = totals.get(key) ?? { speaker: segment.speaker.display_name, email, seconds: 0, segments: 0 };
+    entry.seconds += seconds;
+    entry.segments++;
+    totals.set(key, entry);
+  });
+  return totals;
+}
+
+// Aggregate meeting load and, where transcripts are given, talk time across a set of meetings
+export function computeMeetingAnalytics(
+  meetings: FathomMeeting[],
+  transcripts: Map<string, FathomTranscriptSegment[]> = new Map(),
+  options: { topAttendees?: number } = {}
+): MeetingAnalytics {
+  const byType: MeetingAnalytics['by_type'] = {
+    internal: { meetings: 0, hours: 0 },
+    external: { meetings: 0, hours: 0 },
+    unknown: { meetings: 0, hours: 0 }
+  };
+  const recorders = new Map<string, RecorderLoad>();
+  const attendees = new Map<string, number>();
+  let totalMinutes = 0;
+  let withDuration = 0;
+
+  for (const meeting of meetings) {
+    const minutes = meetingDurationMinutes(meeting);
+    if (minutes !== undefined) {
+      totalMinutes += minutes;
+      withDuration++;
+    }
+
+    const type = meeting.meeting_type === 'internal' || meeting.meeting_type === 'external' ? meeting.meeting_type : 'unknown';
+    byType[type].meetings++;
+    byType[type].hours += (minutes ?? 0) / 60;
+
+    const recorder = meeting.recorded_by || 'unknown';
+    const load = recorders.get(recorder) ?? { recorded_by: recorder, meetings: 0, hours: 0, internal: 0, external: 0 };
+    load.meetings++;
+    load.hours += (minutes ?? 0) / 60;
+    if (type !== 'unknown') {
+      load[type]++;
+    }
+    recorders.set(recorder, load);
+
+    for (const email of new Set((meeting.calendar_invitees || []).map(invitee => invitee.toLowerCase()))) {
+      attendees.set(email, (attendees.get(email) ?? 0) + 1);
+    }
+  }
+
+  const speakers = new Map<string, SpeakerTalkTime & { seconds: number }>();
+  let speakersPerMeeting = 0;
+  for (const segments of transcripts.values()) {
+    const perSpeaker = speakerSeconds(segments);
+    speakersPerMeeting += perSpeaker.size;
+    for (const [key, entry] of perSpeaker) {
+      const total = speakers.get(key) ?? { speaker: entry.speaker, email: entry.email, seconds: 0, talk_time_minutes: 0, share: 0, meetings: 0, segments: 0 };
+      total.seconds += entry.seconds;
+      total.segments += entry.segments;
+      total.meetings++;
+      speakers.set(key, total);
+    }
+  }
+  const totalSeconds = [...speakers.values()].reduce((sum, entry) => sum + entry.seconds, 0);
+
+  return {
+    meetings: meetings.length,
+    total_hours: round(totalMinutes / 60),
+    average_minutes: withDuration > 0 ? round(totalMinutes / withDuration) : undefined,
+    meetings_with_duration: withDuration,
+    by_type: Object.fromEntries(Object.entries(byType)
+      .map(([type, stats]) => [type, { meetings: stats.meetings, hours: round(stats.hours) }])) as MeetingAnalytics['by_type'],
+    by_recorder: [...recorders.values()]
+      .map(load => ({ ...load, hours: round(load.hours) }))
+      .sort((a, b) => b.meetings - a.meetings),
+    top_attendees: [...attendees.entries()]
+      .map(([email, count]) => ({ email, meetings: count }))
+      .sort((a, b) => b.meetings - a.meetings)
+      .slice(0, options.topAttendees ?? 20),
+    talk_time: {
+      transcripts_analyzed: transcripts.size,
+      average_speakers_per_meeting: transcripts.size > 0 ? round(speakersPerMeeting / transcripts.size) : undefined,
+      speakers: [...speakers.values()]
+        .map(({ seconds, ...entry }) => ({
+          ...entry,
+          talk_time_minutes: round(seconds / 60),
+          share: totalSeconds > 0 ? round(seconds / totalSeconds, 3) : 0
+        }))
+        .sort((a, b) => b.talk_time_minutes - a.talk_time_minutes)
+    }
+  };
+}
@@ -0,0 +1,215 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { meetingDurationMinutes } from './meeting-analytics.js';
+import { timestampToSeconds } from './transcript.js';
+import { FathomMeeting, FathomTranscriptSegment, actionItemText } from './types.js';
+
+export type ExportFormat = 'markdown' | 'jsonl' | 'csv' | 'srt' | 'vtt';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// A caption stays up until the next one starts, but not through long silences: at most
+// twice the time its words take to say (~150 words per minute), and at least 2 seconds
+const SECONDS_PER_WORD = 0.4;
+const MIN_CAPTION_SECONDS = 2;
+
+interface ExportedMeeting {
+  meeting: FathomMeeting;
+  segments?: FathomTranscriptSegment[];
+}
+
+function meetingTitle(meeting: FathomMeeting): string {
+  return meeting.title || meeting.meeting_title || 'Untitled meeting';
+}
+
+function meetingDate(meeting: FathomMeeting): string {
+  return meeting.scheduled_start_time || meeting.created_at;
+}
+
+// "2026-03-04-acme-pricing-call-12345", safe as a file name on any OS
+export function exportBaseName(meeting: FathomMeeting): string {
+  const slug = meetingTitle(meeting)
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return [meetingDate(meeting)?.slice(0, 10), slug || 'meeting', meeting.recording_id].filter(Boolean).join('-');
+}
+
+// JSON strings are valid double-quoted YAML scalars, so frontmatter values don't need a YAML library
+function yamlValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? '\n' + value.map(item => `  - ${JSON.stringify(item)}`).join('\n') : ' []';
+  }
+  return ` ${JSON.stringify(value)}`;
+}
+
+export function meetingToMarkdown(meeting: FathomMeeting, segments?: FathomTranscriptSegment[]): string {
+  const duration = meetingDurationMinutes(meeting);
+  const frontmatter: Record<string, unknown> = {
+    title: meetingTitle(meeting),
+    date: meetingDate(meeting),
+    recording_id: meeting.recording_id,
+    url: meeting.share_url || meeting.url,
+    meeting_type: meeting.meeting_type,
+    recorded_by: meeting.recorded_by,
+    duration_minutes: duration !== undefined ? Math.round(duration) : undefined,
+    attendees: meeting.calendar_invitees || [],
+    crm_companies: meeting.crm_matches?.companies?.map(company => company.name)
+  };
+
+  const lines = [
+    '---',
+    ...Object.entries(frontmatter)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${key}:${yamlValue(value)}`),
+    '---',
+    '',
+    `# ${meetingTitle(meeting)}`
+  ];
+  if (meeting.default_summary) {
+    lines.push('', '## Summary', '', meeting.default_summary.trim());
+  }
+  if (meeting.action_items?.length) {
+    lines.push('', '## Action items', '', ...meeting.action_items.map(item => `- [ ] ${actionItemText(item)}`));
+  }
+  if (segments?.length) {
+    lines.push('', '## Transcript', '', ...segments.map(segment =>
+      `**[${segment.timestamp}] ${segment.speaker.display_name}:** ${segment.text}  `));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function meetingToJsonLine(meeting: FathomMeeting, segments?: FathomTranscriptSegment[]): string {
+  const { transcript, ...record } = meeting;
+  return JSON.stringify(segments ? { ...record, transcript: segments } : record);
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = ['recording_id', 'title', 'date', 'duration_minutes', 'meeting_type', 'recorded_by', 'attendees', 'url', 'summary', 'action_items'];
+
+export function meetingsToCsv(meetings: FathomMeeting[]): string {
+  const rows = meetings.map(meeting => {
+    const duration = meetingDurationMinutes(meeting);
+    return [
+      meeting.recording_id,
+      meetingTitle(meeting),
+      meetingDate(meeting),
+      duration !== undefined ? Math.round(duration) : undefined,
+      meeting.meeting_type,
+      meeting.recorded_by,
+      (meeting.calendar_invitees || []).join('; '),
+      meeting.share_url || meeting.url,
+      meeting.default_summary,
+      (meeting.action_items || []).map(actionItemText).join('; ')
+    ].map(csvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Timed cues from transcript segments; segments without a usable timestamp are skipped
+export function transcriptCues(segments: FathomTranscriptSegment[]): Cue[] {
+  const timed = segments
+    .map(segment => ({ segment, start: timestampToSeconds(segment.timestamp) }))
+    .filter((entry): entry is { segment: FathomTranscriptSegment; start: number } => entry.start !== undefined && !!entry.segment.text.trim())
+    .sort((a, b) => a.start - b.start);
+
+  return timed.map(({ segment, start }, index) => {
+    const next = timed[index + 1]?.start;
+    const spoken = Math.max(MIN_CAPTION_SECONDS, segment.text.split(/\s+/).filter(Boolean).length * SECONDS_PER_WORD * 2);
+    return {
+      start,
+      end: Math.min(next !== undefined && next > start ? next : Infinity, start + spoken),
+      speaker: segment.speaker.display_name,
+      text: segment.text.trim()
+    };
+  });
+}
+
+function captionTime(seconds: number, separator: ',' | '.'): string {
+  const millis = Math.round(seconds * 1000);
+  const pad = (value: number, width: number = 2) => String(value).padStart(width, '0');
+  return `${pad(Math.floor(millis / 3600000))}:${pad(Math.floor(millis / 60000) % 60)}:${pad(Math.floor(millis / 1000) % 60)}${separator}${pad(millis % 1000, 3)}`;
+}
+
+export function transcriptToSrt(segments: FathomTranscriptSegment[]): string {
+  return transcriptCues(segments)
+    .map((cue, index) => `${index + 1}\n${captionTime(cue.start, ',')} --> ${captionTime(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`)
+    .join('\n');
+}
+
+export function transcriptToVtt(segments: FathomTranscriptSegment[]): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cues = transcriptCues(segments)
+    .map(cue => `${captionTime(cue.start, '.')} --> ${captionTime(cue.end, '.')}\n<v ${escape(cue.speaker)}>${escape(cue.text)}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+// Render meetings in one format: Markdown and captions get a file per meeting,
+// JSON Lines and CSV a single file covering all of them
+export function exportMeetings(exported: ExportedMeeting[], format: ExportFormat): ExportFile[] {
+  switch (format) {
+    case 'markdown':
+      return exported.map(({ meeting, segments }) => ({
+        filename: `${exportBaseName(meeting)}.md`,
+        mimeType: 'text/markdown',
+        content: meetingToMarkdown(meeting, segments)
+      }));
+    case 'jsonl':
+      return [{
+        filename: 'meetings.jsonl',
+        mimeType: 'application/jsonl',
+        content: exported.map(({ meeting, segments }) => meetingToJsonLine(meeting, segments) + '\n').join('')
+      }];
+    case 'csv':
+      return [{
+        filename: 'meetings.csv',
+        mimeType: 'text/csv',
+        content: meetingsToCsv(exported.map(({ meeting }) => meeting))
+      }];
+    case 'srt':
+    case 'vtt':
+      return exported
+        .filter(({ segments }) => segments?.length)
+        .map(({ meeting, segments }) => ({
+          filename: `${exportBaseName(meeting)}.${format}`,
+          mimeType: format === 'srt' ? 'application/x-subrip' : 'text/vtt',
+          content: format === 'srt' ? transcriptToSrt(segments!) : transcriptToVtt(segments!)
+        }));
+  }
+}
+
+// Exports go to FATHOM_EXPORT_DIR when set, otherwise next to the meeting store
+export function exportDirectory(storeDirectory?: string): string | undefined {
+  const base = process.env.FATHOM_EXPORT_DIR || (storeDirectory && path.join(storeDirectory, 'exports'));
+  return base || undefined;
+}
+
+// Write one export run into its own timestamped folder and return the paths written
+export async function writeExportFiles(baseDir: string, files: ExportFile[]): Promise<string[]> {
+  const dir = path.join(baseDir, new Date().toISOString().replace(/[:.]/g, '-'));
+  await fs.mkdir(dir, { recursive: true });
+  const written: string[] = [];
+  for (const file of files) {
+    const filePath = path.join(dir, file.filename);
+    await fs.writeFile(filePath, file.content, 'utf8');
+    written.push(filePath);
+  }
+  return written;
+}
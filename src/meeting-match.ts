@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { FathomMeeting } from './types.js';
+
+// Conditions on a meeting shared by routing rules and access policies. Every condition
+// given must hold; within a list, any entry may match.
+export const meetingMatchSchema = z.object({
+  meeting_type: z.enum(['internal', 'external']).optional(),
+  // Any invitee's email domain, e.g. "acme.com"
+  calendar_invitees_domains: z.array(z.string()).optional(),
+  recorded_by: z.array(z.string()).optional(),
+  // Names or IDs of teams the recorder belongs to
+  teams: z.array(z.string()).optional(),
+  // Case-insensitive regular expression tested against the title
+  title_pattern: z.string().optional()
+}).strict().superRefine((match, ctx) => {
+  if (match.title_pattern === undefined) return;
+  try {
+    new RegExp(match.title_pattern, 'i');
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['title_pattern'], message: error instanceof Error ? error.message : 'Invalid pattern' });
+  }
+});
+
+export type MeetingMatch = z.infer<typeof meetingMatchSchema>;
+
+export function matchUsesTeams(match: MeetingMatch): boolean {
+  return !!match.teams?.length;
+}
+
+export function meetingMatches(meeting: FathomMeeting, match: MeetingMatch, recorderTeams: string[] = []): boolean {
+  const lower = (values: string[]) => values.map(value => value.toLowerCase());
+
+  if (match.meeting_type && meeting.meeting_type !== match.meeting_type) {
+    return false;
+  }
+  if (match.recorded_by?.length && !lower(match.recorded_by).includes(meeting.recorded_by?.toLowerCase())) {
+    return false;
+  }
+  if (match.calendar_invitees_domains?.length) {
+    const domains = new Set(meeting.calendar_invitees.map(invitee => invitee.split('@')[1]?.toLowerCase()));
+    if (!lower(match.calendar_invitees_domains).some(domain => domains.has(domain))) {
+      return false;
+    }
+  }
+  if (match.teams?.length) {
+    const teams = new Set(lower(recorderTeams));
+    if (!lower(match.teams).some(team => teams.has(team))) {
+      return false;
+    }
+  }
+  if (match.title_pattern !== undefined && !new RegExp(match.title_pattern, 'i').test(meeting.title || meeting.meeting_title || '')) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,420 @@
+import axios from 'axios';
+import fs from 'node:fs';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import { z } from 'zod';
+import { FathomClient } from './fathom-client.js';
+import { createLogger } from './logger.js';
+import { matchUsesTeams, meetingMatchSchema, meetingMatches } from './meeting-match.js';
+import { backoffDelayMs, sleep } from './rate-limiter.js';
+import { TeamDirectory } from './team-directory.js';
+import { instrumentAxios } from './tracing.js';
+import { FathomMeeting, actionItemText } from './types.js';
+
+const log = createLogger('ROUTES');
+
+const sinkClient = instrumentAxios(axios.create(), 'sink');
+
+// Fields a sink template can reference as {{name}} (raw text) or {{json name}} (a JSON value).
+// Lists render as text with one "- item" line per action item, and comma-separated invitees.
+const TEMPLATE_FIELDS = [
+  'rule', 'title', 'date', 'url', 'share_url', 'recording_id', 'recorded_by', 'meeting_type',
+  'invitees', 'summary', 'action_items', 'meeting'
+] as const;
+
+type TemplateField = typeof TEMPLATE_FIELDS[number];
+
+const TEMPLATE_PATTERN = /\{\{\s*(json\s+)?([a-z_]+)\s*\}\}/g;
+
+// Slack truncates long messages; the summary gets cut well before that
+const SLACK_SUMMARY_LENGTH = 2500;
+
+const sinkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('slack'),
+    webhook_url: z.string().url(),
+    // Replaces the default message, which has the title, summary and action items
+    text: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('http'),
+    url: z.string().url(),
+    method: z.enum(['POST', 'PUT', 'PATCH']).default('POST'),
+    headers: z.record(z.string()).default({}),
+    content_type: z.string().default('application/json'),
+    // Defaults to {"rule": ..., "meeting": ...}
+    body: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('smtp'),
+    host: z.string().min(1),
+    port: z.number().int().positive().default(587),
+    // Implicit TLS; defaults to true on port 465
+    secure: z.boolean().optional(),
+    require_tls: z.boolean().default(true),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    from: z.string().min(1),
+    to: z.array(z.string().min(1)).min(1),
+    subject: z.string().default('Meeting notes: {{title}}'),
+    text: z.string().optional()
+  })
+]);
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  // Every condition given must hold; within a list, any entry may match
+  match: meetingMatchSchema.default({}),
+  sinks: z.array(z.string()).min(1)
+});
+
+const routesSchema = z.object({
+  retry: z.object({
+    attempts: z.number().int().min(1).max(10).default(5),
+    base_delay_ms: z.number().int().min(0).default(2000)
+  }).default({}),
+  sinks: z.record(sinkSchema),
+  rules: z.array(ruleSchema)
+});
+
+export type RouteSink = z.infer<typeof sinkSchema>;
+export type RouteRule = z.infer<typeof ruleSchema>;
+export type RoutesConfig = z.infer<typeof routesSchema>;
+
+export interface RouteContext {
+  accountId: string;
+  // Looks up the recorder's teams; without it (no session has sent the account's API key since
+  // startup) rules matching on teams don't match
+  fathomClient?: FathomClient;
+  // Where dead-letters.jsonl goes; failures are only logged when unset
+  dataDir?: string;
+}
+
+export interface DeliveryResult {
+  rule: string;
+  sink: string;
+  ok: boolean;
+  attempts: number;
+  error?: string;
+}
+
+export interface DeadLetter {
+  failed_at: string;
+  account: string;
+  rule: string;
+  sink: string;
+  sink_type: RouteSink['type'];
+  recording_id?: string;
+  title: string;
+  attempts: number;
+  error: string;
+  // The rendered message, so it can be sent again by hand
+  payload: string;
+}
+
+class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+// "${NAME}" in any string is replaced from the environment, so webhook URLs and
+// passwords can stay out of the rules file
+function substituteEnv(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Z0-9_]+)\}/g, (_, name: string) => {
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        throw new Error(`Routes file references ${name}, which is not set`);
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(substituteEnv);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, substituteEnv(entry)]));
+  }
+  return value;
+}
+
+export function parseRoutesConfig(raw: unknown): RoutesConfig {
+  const parsed = routesSchema.safeParse(substituteEnv(raw));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid routes file at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  const config = parsed.data;
+
+  for (const rule of config.rules) {
+    const missing = rule.sinks.find(sink => !config.sinks[sink]);
+    if (missing) {
+      throw new Error(`Rule "${rule.name}" sends to unknown sink "${missing}"`);
+    }
+  }
+  for (const [name, sink] of Object.entries(config.sinks)) {
+    const templates = sink.type === 'slack' ? [sink.text] : sink.type === 'http' ? [sink.body] : [sink.subject, sink.text];
+    for (const template of templates) {
+      for (const [, , field] of (template ?? '').matchAll(TEMPLATE_PATTERN)) {
+        if (!(TEMPLATE_FIELDS as readonly string[]).includes(field)) {
+          throw new Error(`Sink "${name}" template uses unknown field "${field}"; use one of ${TEMPLATE_FIELDS.join(', ')}`);
+        }
+      }
+    }
+  }
+  return config;
+}
+
+// Routing is off unless FATHOM_ROUTES_FILE points at a rules file; a broken file stops startup
+export function createMeetingRouterFromEnv(): MeetingRouter | undefined {
+  const routesFile = process.env.FATHOM_ROUTES_FILE;
+  if (!routesFile) {
+    return undefined;
+  }
+  const config = parseRoutesConfig(JSON.parse(fs.readFileSync(routesFile, 'utf8')));
+  log.info(`Loaded ${config.rules.length} rules and ${Object.keys(config.sinks).length} sinks from ${routesFile}`);
+  return new MeetingRouter(config);
+}
+
+export function meetingMatchesRule(meeting: FathomMeeting, rule: RouteRule, recorderTeams: string[] = []): boolean {
+  return meetingMatches(meeting, rule.match, recorderTeams);
+}
+
+function templateValues(meeting: FathomMeeting, rule: RouteRule): Record<TemplateField, unknown> {
+  const { transcript, ...withoutTranscript } = meeting;
+  return {
+    rule: rule.name,
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.url,
+    share_url: meeting.share_url || meeting.url,
+    recording_id: meeting.recording_id,
+    recorded_by: meeting.recorded_by,
+    meeting_type: meeting.meeting_type,
+    invitees: meeting.calendar_invitees,
+    summary: meeting.default_summary ?? '',
+    action_items: (meeting.action_items || []).map(actionItemText),
+    meeting: withoutTranscript
+  };
+}
+
+export function renderTemplate(template: string, values: Record<TemplateField, unknown>): string {
+  return template.replace(TEMPLATE_PATTERN, (_, json: string | undefined, field: TemplateField) => {
+    const value = values[field];
+    if (json) return JSON.stringify(value ?? null);
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return field === 'action_items' ? value.map(item => `- ${item}`).join('\n') : value.join(', ');
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+// Slack mrkdwn: escape &, < and >, then turn Markdown headings, bold and links into Slack's forms
+function slackMarkdown(markdown: string): string {
+  return markdown
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<$2|$1>');
+}
+
+function slackText(meeting: FathomMeeting): string {
+  const title = slackMarkdown(meeting.title || meeting.meeting_title);
+  const link = meeting.share_url || meeting.url;
+  const summary = meeting.default_summary && meeting.default_summary.length > SLACK_SUMMARY_LENGTH
+    ? `${meeting.default_summary.slice(0, SLACK_SUMMARY_LENGTH)}…`
+    : meeting.default_summary;
+  const lines = [
+    link ? `*<${link}|${title}>*` : `*${title}*`,
+    [new Date(meeting.scheduled_start_time || meeting.created_at).toUTCString(), meeting.meeting_type !== 'all' ? meeting.meeting_type : undefined,
+      meeting.recorded_by ? `recorded by ${meeting.recorded_by}` : undefined].filter(Boolean).join(' · ')
+  ];
+  if (summary) {
+    lines.push('', slackMarkdown(summary));
+  }
+  if (meeting.action_items?.length) {
+    lines.push('', '*Action items*', ...meeting.action_items.map(item => `• ${slackMarkdown(actionItemText(item))}`));
+  }
+  return lines.join('\n');
+}
+
+function plainText(meeting: FathomMeeting): string {
+  const lines = [
+    meeting.title || meeting.meeting_title,
+    `Date: ${meeting.scheduled_start_time || meeting.created_at}`,
+    `Recorded by: ${meeting.recorded_by || 'unknown'}`,
+    `Attendees: ${meeting.calendar_invitees.join(', ') || 'none'}`,
+    `Recording: ${meeting.share_url || meeting.url}`
+  ];
+  if (meeting.default_summary) {
+    lines.push('', meeting.default_summary);
+  }
+  if (meeting.action_items?.length) {
+    lines.push('', 'Action items:', ...meeting.action_items.map(item => `- ${actionItemText(item)}`));
+  }
+  return lines.join('\n');
+}
+
+// The request body, email text or Slack message a sink sends for a meeting
+export function renderSinkPayload(sink: RouteSink, meeting: FathomMeeting, rule: RouteRule): string {
+  const values = templateValues(meeting, rule);
+  switch (sink.type) {
+    case 'slack':
+      return JSON.stringify({ text: sink.text ? renderTemplate(sink.text, values) : slackText(meeting) });
+    case 'http':
+      return sink.body ? renderTemplate(sink.body, values) : JSON.stringify({ rule: rule.name, meeting: values.meeting });
+    case 'smtp':
+      return sink.text ? renderTemplate(sink.text, values) : plainText(meeting);
+  }
+}
+
+// Forwards meetings received by webhook to Slack, HTTP endpoints and SMTP relays according to
+// the rules in FATHOM_ROUTES_FILE. A meeting goes to the sinks of every rule it matches, once
+// per sink. Failed deliveries are retried with backoff, then appended to <dataDir>/dead-letters.jsonl.
+export class MeetingRouter {
+  private teamDirectories = new Map<string, TeamDirectory>();
+  private deadLetterQueue: Promise<void> = Promise.resolve();
+
+  constructor(private config: RoutesConfig) {}
+
+  async route(meeting: FathomMeeting, context: RouteContext): Promise<DeliveryResult[]> {
+    const needsTeams = this.config.rules.some(rule => matchUsesTeams(rule.match));
+    const recorderTeams = needsTeams && context.fathomClient ? await this.teamDirectory(context.accountId, context.fathomClient).teamsOf(meeting.recorded_by) : [];
+
+    const deliveries = new Map<string, RouteRule>();
+    for (const rule of this.config.rules) {
+      if (!meetingMatchesRule(meeting, rule, recorderTeams)) continue;
+      for (const sink of rule.sinks) {
+        if (!deliveries.has(sink)) deliveries.set(sink, rule);
+      }
+    }
+    if (deliveries.size === 0) {
+      return [];
+    }
+
+    log.info(`Meeting ${meeting.recording_id ?? '(no recording ID)'} matched ${[...new Set(deliveries.values())].map(rule => rule.name).join(', ')}`);
+    return Promise.all([...deliveries].map(([sink, rule]) => this.deliverWithRetry(sink, rule, meeting, context)));
+  }
+
+  private async deliverWithRetry(sinkName: string, rule: RouteRule, meeting: FathomMeeting, context: RouteContext): Promise<DeliveryResult> {
+    const sink = this.config.sinks[sinkName];
+    const { attempts, base_delay_ms } = this.config.retry;
+    const payload = renderSinkPayload(sink, meeting, rule);
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await this.deliver(sink, payload, meeting, rule);
+        return { rule: rule.name, sink: sinkName, ok: true, attempts: attempt };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        const retryable = !(error instanceof DeliveryError) || error.retryable;
+        log.warn(`Delivery to ${sinkName} failed (attempt ${attempt}/${attempts}): ${lastError}`);
+        if (!retryable) {
+          if (attempt < attempts) {
+            log.info(`Not retrying ${sinkName}: the error is permanent`);
+          }
+          await this.deadLetter(sinkName, sink, rule, meeting, context, attempt, lastError, payload);
+          return { rule: rule.name, sink: sinkName, ok: false, attempts: attempt, error: lastError };
+        }
+        if (attempt < attempts) {
+          await sleep(base_delay_ms + backoffDelayMs(attempt - 1, base_delay_ms, 5 * 60 * 1000));
+        }
+      }
+    }
+
+    await this.deadLetter(sinkName, sink, rule, meeting, context, attempts, lastError, payload);
+    return { rule: rule.name, sink: sinkName, ok: false, attempts, error: lastError };
+  }
+
+  private async deliver(sink: RouteSink, payload: string, meeting: FathomMeeting, rule: RouteRule): Promise<void> {
+    if (sink.type === 'smtp') {
+      const secure = sink.secure ?? sink.port === 465;
+      const transport = nodemailer.createTransport({
+        host: sink.host,
+        port: sink.port,
+        secure,
+        // Implicit TLS already encrypts the connection; otherwise insist on STARTTLS
+        requireTLS: !secure && sink.require_tls,
+        auth: sink.username ? { user: sink.username, pass: sink.password } : undefined,
+        connectionTimeout: 15000,
+        socketTimeout: 15000
+      });
+      try {
+        await transport.sendMail({
+          from: sink.from,
+          to: sink.to,
+          subject: renderTemplate(sink.subject, templateValues(meeting, rule)),
+          text: payload
+        });
+      } catch (error) {
+        // Connection failures and 4xx replies are temporary; 5xx replies are not
+        const code = (error as { responseCode?: number }).responseCode;
+        throw new DeliveryError(error instanceof Error ? error.message : 'Unknown error', code === undefined || (code >= 400 && code < 500));
+      } finally {
+        transport.close();
+      }
+      return;
+    }
+
+    const url = sink.type === 'slack' ? sink.webhook_url : sink.url;
+    const response = await sinkClient.request({
+      method: sink.type === 'slack' ? 'POST' : sink.method,
+      url,
+      data: payload,
+      headers: sink.type === 'slack'
+        ? { 'Content-Type': 'application/json' }
+        : { 'Content-Type': sink.content_type, ...sink.headers },
+      // Send the rendered body as is; axios would re-encode a string it can't parse as JSON
+      transformRequest: [(data: string) => data],
+      timeout: 15000,
+      validateStatus: () => true
+    }).catch(error => {
+      throw new DeliveryError(error instanceof Error ? error.message : 'Unknown error', true);
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      // Timeouts, rate limits and server errors may pass; anything else won't without a config change
+      const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      throw new DeliveryError(`${response.status} from ${new URL(url).host}: ${JSON.stringify(response.data).slice(0, 200)}`, retryable);
+    }
+  }
+
+  private async deadLetter(sinkName: string, sink: RouteSink, rule: RouteRule, meeting: FathomMeeting, context: RouteContext,
+    attempts: number, error: string, payload: string): Promise<void> {
+    const entry: DeadLetter = {
+      failed_at: new Date().toISOString(),
+      account: context.accountId,
+      rule: rule.name,
+      sink: sinkName,
+      sink_type: sink.type,
+      recording_id: meeting.recording_id,
+      title: meeting.title || meeting.meeting_title,
+      attempts,
+      error,
+      payload
+    };
+    log.error(`Gave up on ${sinkName} for meeting ${meeting.recording_id ?? '(no recording ID)'} after ${attempts} attempts`);
+    if (!context.dataDir) {
+      return;
+    }
+
+    const filePath = path.join(context.dataDir, 'dead-letters.jsonl');
+    const write = this.deadLetterQueue.then(async () => {
+      await fs.promises.mkdir(context.dataDir!, { recursive: true });
+      await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    });
+    this.deadLetterQueue = write.catch(() => undefined);
+    await write.catch(writeError => log.warn(`Could not write ${filePath}`, { error: writeError }));
+  }
+
+  private teamDirectory(accountId: string, fathomClient: FathomClient): TeamDirectory {
+    let directory = this.teamDirectories.get(accountId);
+    if (!directory) {
+      directory = new TeamDirectory(fathomClient, 'ROUTES');
+      this.teamDirectories.set(accountId, directory);
+    }
+    return directory;
+  }
+}
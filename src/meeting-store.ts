@@ -0,0 +1,240 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AtomicFileWriter } from './atomic-file-writer.js';
+import { createLogger } from './logger.js';
+import { parseTranscript } from './transcript.js';
+import { FathomListMeetingsParams, FathomMeeting, FathomTranscriptSegment } from './types.js';
+
+const log = createLogger('STORE');
+
+export interface StoredTranscript {
+  recording_id: string;
+  fetched_at: string;
+  segments: FathomTranscriptSegment[];
+}
+
+export interface SyncState {
+  last_created_at?: string;
+  last_synced_at?: string;
+}
+
+export interface MeetingsChange {
+  // Meetings the store hadn't seen before
+  added: FathomMeeting[];
+  // Known meetings whose record changed, e.g. a summary that arrived after the first sync
+  updated: FathomMeeting[];
+  // Recording IDs whose transcript was saved
+  transcripts: string[];
+}
+
+interface MeetingsFile {
+  meetings: Record<string, FathomMeeting>;
+  sync: SyncState;
+}
+
+export function defaultDataDir(): string {
+  return process.env.FATHOM_DATA_DIR || path.join(os.homedir(), '.mcp-fathom-server');
+}
+
+// Returns undefined when the local store has been switched off with FATHOM_DISABLE_STORE=true.
+// Pass an account ID to keep that account's meetings in <dataDir>/accounts/<accountId>.
+export function createMeetingStoreFromEnv(accountId?: string): MeetingStore | undefined {
+  if (process.env.FATHOM_DISABLE_STORE === 'true') {
+    return undefined;
+  }
+  const dataDir = defaultDataDir();
+  return new MeetingStore(accountId ? path.join(dataDir, 'accounts', accountId) : dataDir);
+}
+
+// On-disk store of meetings and transcripts, laid out as:
+//   <dataDir>/meetings.json                  meeting records keyed by recording ID, plus sync state
+//   <dataDir>/transcripts/<recording_id>.json one file per fetched transcript
+export class MeetingStore {
+  private meetings = new Map<string, FathomMeeting>();
+  private syncState: SyncState = {};
+  private loaded?: Promise<void>;
+  private writer = new AtomicFileWriter();
+  private changeListeners = new Set<(change: MeetingsChange) => void>();
+
+  constructor(private dataDir: string) {}
+
+  get directory(): string {
+    return this.dataDir;
+  }
+
+  async listMeetings(params: FathomListMeetingsParams = {}): Promise<FathomMeeting[]> {
+    await this.load();
+    return [...this.meetings.values()]
+      .filter(meeting => matchesParams(meeting, params))
+      .map(meeting => ({ ...meeting }))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async getMeeting(recordingId: string): Promise<FathomMeeting | undefined> {
+    await this.load();
+    const meeting = this.meetings.get(recordingId);
+    return meeting ? { ...meeting } : undefined;
+  }
+
+  async countMeetings(): Promise<number> {
+    await this.load();
+    return this.meetings.size;
+  }
+
+  async upsertMeetings(meetings: FathomMeeting[]): Promise<number> {
+    await this.load();
+    const added: FathomMeeting[] = [];
+    const updated: FathomMeeting[] = [];
+
+    for (const meeting of meetings) {
+      const key = meetingKey(meeting);
+      if (!key) continue;
+      // Transcripts live in their own files (see saveTranscript), so keep the meeting record light
+      const { transcript: _, ...record } = meeting;
+      const existing = this.meetings.get(key);
+      const merged = { ...existing, ...record };
+      if (!existing) {
+        added.push(merged);
+      } else if (JSON.stringify(merged) !== JSON.stringify(existing)) {
+        updated.push(merged);
+      }
+      this.meetings.set(key, merged);
+    }
+
+    await this.persistMeetings();
+    if (added.length > 0 || updated.length > 0) {
+      this.notifyChange({ added, updated, transcripts: [] });
+    }
+    return added.length;
+  }
+
+  // Called after meetings or transcripts are saved, whether by sync, a read-through fetch or
+  // a webhook. Re-saving an unchanged meeting is not a change. Returns a function that
+  // removes the listener.
+  onMeetingsChanged(listener: (change: MeetingsChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  async getSyncState(): Promise<SyncState> {
+    await this.load();
+    return { ...this.syncState };
+  }
+
+  async updateSyncState(state: SyncState): Promise<void> {
+    await this.load();
+    this.syncState = { ...this.syncState, ...state };
+    await this.persistMeetings();
+  }
+
+  async getTranscript(recordingId: string): Promise<StoredTranscript | undefined> {
+    try {
+      const content = await fs.readFile(this.transcriptPath(recordingId), 'utf8');
+      const stored = JSON.parse(content) as StoredTranscript & { transcript?: string };
+      // Files written before segments were stored hold the flattened text instead
+      if (!stored.segments && typeof stored.transcript === 'string') {
+        return { recording_id: stored.recording_id, fetched_at: stored.fetched_at, segments: parseTranscript(stored.transcript) };
+      }
+      return stored;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async saveTranscript(recordingId: string, segments: FathomTranscriptSegment[]): Promise<void> {
+    // load() creates the transcripts directory
+    await this.load();
+    const stored: StoredTranscript = {
+      recording_id: recordingId,
+      fetched_at: new Date().toISOString(),
+      segments
+    };
+    await this.writer.write(this.transcriptPath(recordingId), JSON.stringify(stored));
+    this.notifyChange({ added: [], updated: [], transcripts: [recordingId] });
+  }
+
+  private notifyChange(change: MeetingsChange): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        log.warn('Change listener failed', { error });
+      }
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.mkdir(path.join(this.dataDir, 'transcripts'), { recursive: true });
+        try {
+          const content = await fs.readFile(path.join(this.dataDir, 'meetings.json'), 'utf8');
+          const file = JSON.parse(content) as MeetingsFile;
+          this.meetings = new Map(Object.entries(file.meetings || {}));
+          this.syncState = file.sync || {};
+          log.info(`Loaded ${this.meetings.size} meetings from ${this.dataDir}`);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            log.warn('Could not read meetings.json, starting empty', { error });
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private persistMeetings(): Promise<void> {
+    const file: MeetingsFile = {
+      meetings: Object.fromEntries(this.meetings),
+      sync: this.syncState
+    };
+    return this.writer.write(path.join(this.dataDir, 'meetings.json'), JSON.stringify(file));
+  }
+
+  private transcriptPath(recordingId: string): string {
+    return path.join(this.dataDir, 'transcripts', `${encodeURIComponent(recordingId)}.json`);
+  }
+}
+
+export function meetingKey(meeting: FathomMeeting): string | undefined {
+  return meeting.recording_id ? String(meeting.recording_id) : meeting.url || undefined;
+}
+
+// Team membership isn't part of the meeting record, so team filters can only be answered by the API
+export function canFilterLocally(params: FathomListMeetingsParams = {}): boolean {
+  return !params.teams?.length && !params.cursor;
+}
+
+function matchesParams(meeting: FathomMeeting, params: FathomListMeetingsParams): boolean {
+  const createdAt = Date.parse(meeting.created_at);
+  if (params.created_after && !(createdAt > Date.parse(params.created_after))) {
+    return false;
+  }
+  if (params.created_before && !(createdAt < Date.parse(params.created_before))) {
+    return false;
+  }
+  if (params.meeting_type && params.meeting_type !== 'all' && meeting.meeting_type !== params.meeting_type) {
+    return false;
+  }
+  if (params.recorded_by?.length && !params.recorded_by.some(email => equalsIgnoreCase(email, meeting.recorded_by))) {
+    return false;
+  }
+  const invitees = meeting.calendar_invitees || [];
+  if (params.calendar_invitees?.length &&
+      !params.calendar_invitees.some(email => invitees.some(invitee => equalsIgnoreCase(email, invitee)))) {
+    return false;
+  }
+  if (params.calendar_invitees_domains?.length &&
+      !params.calendar_invitees_domains.some(domain => invitees.some(invitee => equalsIgnoreCase(domain, invitee.split('@')[1])))) {
+    return false;
+  }
+  return true;
+}
+
+function equalsIgnoreCase(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
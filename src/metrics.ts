@@ -0,0 +1,42 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Prometheus metrics for GET /metrics, alongside prom-client's process metrics (CPU, memory,
+// event loop lag)
+export const metrics = new Registry();
+collectDefaultMetrics({ register: metrics });
+
+export const toolCallsTotal = new Counter({
+  name: 'fathom_mcp_tool_calls_total',
+  help: 'MCP tool calls by tool and outcome (ok or error)',
+  labelNames: ['tool', 'status'] as const,
+  registers: [metrics]
+});
+
+export const toolCallDuration = new Histogram({
+  name: 'fathom_mcp_tool_call_duration_seconds',
+  help: 'MCP tool call latency by tool',
+  labelNames: ['tool'] as const,
+  // Seconds; covers a cached tool call up to a full transcript sweep
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metrics]
+});
+
+export const fathomApiResponses = new Counter({
+  name: 'fathom_api_responses_total',
+  help: 'Fathom API responses by method, endpoint and status code (or network error code)',
+  labelNames: ['method', 'endpoint', 'status'] as const,
+  registers: [metrics]
+});
+
+export const fathomApiRateLimited = new Counter({
+  name: 'fathom_api_rate_limited_total',
+  help: 'Fathom API requests answered with 429',
+  registers: [metrics]
+});
+
+export const activeSessions = new Gauge({
+  name: 'fathom_mcp_active_sessions',
+  help: 'Open MCP sessions by transport',
+  labelNames: ['transport'] as const,
+  registers: [metrics]
+});
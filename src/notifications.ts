@@ -0,0 +1,136 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  LoggingLevel,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "./logger.js";
+import { MeetingsChange } from "./meeting-store.js";
+import { meetingUri, transcriptUri } from "./resources.js";
+import { ToolContext } from "./tools.js";
+import { FathomMeeting } from "./types.js";
+
+const logger = createLogger("NOTIFICATIONS");
+
+// RFC 5424 severities, lowest first, as used by logging/setLevel
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// A batch larger than this (say, the first sync of a new store) gets one summary log message
+// instead of one per meeting
+const MAX_MEETING_MESSAGES = 3;
+
+export interface NotificationOptions {
+  // Also send a logging message naming each new meeting (FATHOM_LOG_NEW_MEETINGS=true)
+  logNewMeetings?: boolean;
+}
+
+export function notificationOptionsFromEnv(): NotificationOptions {
+  return { logNewMeetings: process.env.FATHOM_LOG_NEW_MEETINGS === 'true' };
+}
+
+function meetingTitle(meeting: FathomMeeting): string {
+  return meeting.title || meeting.meeting_title || `Meeting ${meeting.recording_id}`;
+}
+
+// Push changes to the connected client without waiting to be asked: resources/list_changed when
+// meetings arrive, resources/updated for subscribed meetings and transcripts, and optionally a
+// logging message per new meeting. Returns a function that stops the notifications.
+export function registerNotifications(server: Server, context: ToolContext, options: NotificationOptions = notificationOptionsFromEnv()): () => void {
+  const subscriptions = new Set<string>();
+  // Until the client sets a level, every message is sent
+  let minimumLevel: LoggingLevel = 'debug';
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    logger.debug(`Subscribed to ${request.params.uri}`);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    minimumLevel = request.params.level;
+    return {};
+  });
+
+  const report = (notification: string) => (error: unknown) => {
+    logger.warn(`Failed to send ${notification}`, { error });
+  };
+
+  // Meeting titles can name people, so messages are redacted like tool results
+  const log = (level: LoggingLevel, data: Record<string, unknown>) => {
+    if (LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(minimumLevel)) {
+      (context.redactor ? context.redactor.redact(data) : Promise.resolve(data))
+        .then(redacted => server.sendLoggingMessage({ level, logger: 'fathom', data: redacted }))
+        .catch(report('logging message'));
+    }
+  };
+
+  const notify = ({ added, updated, transcripts }: MeetingsChange) => {
+    if (added.length > 0) {
+      logger.info(`${added.length} new meeting(s), notifying client`);
+      server.sendResourceListChanged().catch(report('list_changed notification'));
+    }
+
+    const changedUris = [
+      ...[...added, ...updated].filter(meeting => meeting.recording_id).map(meeting => meetingUri(meeting.recording_id!)),
+      ...transcripts.map(recordingId => transcriptUri(recordingId))
+    ];
+    for (const uri of new Set(changedUris)) {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(report(`resources/updated for ${uri}`));
+      }
+    }
+
+    if (!options.logNewMeetings || added.length === 0) {
+      return;
+    }
+    if (added.length > MAX_MEETING_MESSAGES) {
+      log('info', { event: 'meetings_added', message: `${added.length} new meetings are ready`, count: added.length });
+      return;
+    }
+    for (const meeting of added) {
+      log('info', {
+        event: 'meeting_ready',
+        message: `Your meeting "${meetingTitle(meeting)}" just finished processing`,
+        title: meetingTitle(meeting),
+        recording_id: meeting.recording_id,
+        uri: meeting.recording_id ? meetingUri(meeting.recording_id) : undefined,
+        share_url: meeting.share_url || undefined
+      });
+    }
+  };
+
+  // Meetings the caller's access policy hides don't generate notifications either
+  const visible = async ({ added, updated, transcripts }: MeetingsChange): Promise<MeetingsChange> => {
+    const { access, webhookReceiver } = context;
+    if (!access) {
+      return { added, updated, transcripts };
+    }
+    const allowed = await Promise.all(transcripts.map(id => access.allowsRecording(id, webhookReceiver?.getMeeting(id))));
+    return {
+      added: await access.filter(added),
+      updated: await access.filter(updated),
+      transcripts: transcripts.filter((id, index) => allowed[index])
+    };
+  };
+
+  const onChange = (change: MeetingsChange) => {
+    visible(change).then(notify).catch(report('notifications'));
+  };
+
+  // New meetings reach the store through sync or webhook deliveries. Without a store, only
+  // webhook deliveries can be seen.
+  if (context.meetingStore) {
+    return context.meetingStore.onMeetingsChanged(onChange);
+  }
+  return context.webhookReceiver?.onMeetingReceived((meeting, isNew) => onChange({
+    added: isNew ? [meeting] : [],
+    updated: isNew ? [] : [meeting],
+    transcripts: meeting.recording_id && context.webhookReceiver?.getTranscript(meeting.recording_id) ? [meeting.recording_id] : []
+  })) ?? (() => {});
+}
@@ -0,0 +1,271 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
+  PromptArgument,
+  PromptMessage
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { auditCaller } from "./audit-log.js";
+import { createLogger } from "./logger.js";
+import { transcriptUri } from "./resources.js";
+import { ToolContext } from "./tools.js";
+import { formatTranscript } from "./transcript.js";
+import { FathomListMeetingsParams, FathomMeeting, actionItemText } from "./types.js";
+
+const log = createLogger("PROMPTS");
+
+// Cap on meetings summarised into one prompt, and on full transcripts embedded in one
+const MAX_PROMPT_MEETINGS = 50;
+const MAX_PROMPT_TRANSCRIPTS = 5;
+
+// Prompt arguments always arrive as strings, so every schema is a flat object of strings
+type PromptSchema = z.ZodObject<Record<string, z.ZodString | z.ZodOptional<z.ZodString>>>;
+
+export interface PromptDefinition<S extends PromptSchema = PromptSchema> {
+  name: string;
+  title: string;
+  description: string;
+  schema: S;
+  build: (params: z.infer<S>, context: ToolContext) => Promise<PromptMessage[]>;
+}
+
+// Each builder is type-checked against its own schema, then kept behind one that parses its
+// arguments, so prompts with different arguments share the list
+function definePrompt<S extends PromptSchema>(prompt: PromptDefinition<S>): PromptDefinition {
+  return { ...prompt, build: (params, context) => prompt.build(prompt.schema.parse(params), context) };
+}
+
+const recordingIdArgument = z.string().describe("Recording ID of the meeting");
+const startDateArgument = z.string().optional().describe("Only include meetings on or after this date (ISO 8601, default: 7 days ago)");
+const endDateArgument = z.string().optional().describe("Only include meetings before this date (ISO 8601, default: now)");
+const domainArgument = z.string().optional().describe("Only include meetings with an attendee from this company domain, e.g. acme.com");
+
+function userText(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+// Render the parts of a meeting a prompt needs as plain text
+function describeMeeting(meeting: FathomMeeting): string {
+  const lines = [
+    `## ${meeting.title || meeting.meeting_title} (${meeting.scheduled_start_time || meeting.created_at})`,
+    `Recording ID: ${meeting.recording_id ?? 'unknown'}`,
+    `Attendees: ${meeting.calendar_invitees?.join(', ') || 'unknown'}`
+  ];
+  if (meeting.default_summary) {
+    lines.push('', 'Summary:', meeting.default_summary);
+  }
+  if (meeting.action_items?.length) {
+    lines.push('', 'Action items:', ...meeting.action_items.map(item => `- ${actionItemText(item)}`));
+  }
+  return lines.join('\n');
+}
+
+// Meetings the caller's access policy hides are reported as not found
+async function meetingOrThrow(recordingId: string, { fathomClient, access }: ToolContext): Promise<FathomMeeting> {
+  const meeting = await fathomClient.getMeeting(recordingId);
+  if (!meeting || (access && !await access.allows(meeting))) {
+    throw new McpError(ErrorCode.InvalidParams, `Meeting not found: ${recordingId}`);
+  }
+  return meeting;
+}
+
+// The transcript as an embedded resource, so clients can show it as an attachment
+async function transcriptMessage(recordingId: string, { fathomClient, webhookReceiver }: ToolContext): Promise<PromptMessage> {
+  const segments = webhookReceiver?.getTranscript(recordingId) ?? await fathomClient.getMeetingTranscriptSegments(recordingId);
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: {
+        uri: transcriptUri(recordingId),
+        mimeType: "text/plain",
+        text: segments.length > 0
+          ? formatTranscript(segments)
+          : `No transcript available for recording ${recordingId}.`
+      }
+    }
+  };
+}
+
+async function meetingsInRange(
+  params: { start_date?: string; end_date?: string; attendee_domain?: string },
+  context: ToolContext,
+  filters: FathomListMeetingsParams = {}
+): Promise<{ meetings: FathomMeeting[]; range: string }> {
+  const createdAfter = params.start_date || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  const response = await context.fathomClient.collectMeetings({
+    ...filters,
+    created_after: createdAfter,
+    created_before: params.end_date,
+    calendar_invitees_domains: params.attendee_domain ? [params.attendee_domain] : undefined
+  }, { limit: MAX_PROMPT_MEETINGS });
+
+  const range = `${createdAfter} to ${params.end_date || 'now'}${params.attendee_domain ? ` with ${params.attendee_domain}` : ''}`;
+  return { meetings: context.access ? await context.access.filter(response.items) : response.items, range };
+}
+
+function meetingDigest(meetings: FathomMeeting[], range: string): PromptMessage {
+  return userText(meetings.length > 0
+    ? `Meetings from ${range} (${meetings.length}):\n\n${meetings.map(describeMeeting).join('\n\n')}`
+    : `There were no meetings from ${range}.`);
+}
+
+export const prompts: PromptDefinition[] = [
+  definePrompt({
+    name: "weekly_digest",
+    title: "Weekly meeting digest",
+    description: "Summarise a week of meetings into themes, decisions and open action items",
+    schema: z.object({
+      start_date: startDateArgument,
+      end_date: endDateArgument,
+      attendee_domain: domainArgument
+    }),
+    build: async (params, context) => {
+      const { meetings, range } = await meetingsInRange(params, context);
+      return [
+        userText(`Write a digest of the meetings below for someone who missed them. Group them by theme, then list the key decisions, and finish with every open action item and its owner. Keep it under 400 words and mention which meeting each point came from.`),
+        meetingDigest(meetings, range)
+      ];
+    }
+  }),
+
+  definePrompt({
+    name: "customer_call_debrief",
+    title: "Customer call debrief",
+    description: "Debrief a customer call: their goals, pain points, objections, commitments and next steps",
+    schema: z.object({
+      recording_id: recordingIdArgument
+    }),
+    build: async (params, context) => {
+      const meeting = await meetingOrThrow(params.recording_id, context);
+      return [
+        userText(`Debrief this customer call for the account team. Cover:\n1. Who attended and their roles\n2. The customer's goals and pain points, in their own words where possible\n3. Objections or concerns raised\n4. Commitments made by either side\n5. Recommended next steps and risks to the deal\n\nQuote the transcript with timestamps to support each point.`),
+        userText(describeMeeting(meeting)),
+        await transcriptMessage(params.recording_id, context)
+      ];
+    }
+  }),
+
+  definePrompt({
+    name: "decision_log",
+    title: "Decision log",
+    description: "Extract the decisions made in one meeting (recording_id) or across a date range",
+    schema: z.object({
+      recording_id: recordingIdArgument.optional().describe("Recording ID of a single meeting; when set the date range is ignored"),
+      start_date: startDateArgument,
+      end_date: endDateArgument,
+      attendee_domain: domainArgument
+    }),
+    build: async (params, context) => {
+      const instructions = userText(`Produce a decision log as a table with columns: Date, Meeting, Decision, Owner, Rationale. Only include decisions that were actually agreed, not options that were discussed. If a decision reverses an earlier one, say so.`);
+
+      if (params.recording_id) {
+        const meeting = await meetingOrThrow(params.recording_id, context);
+        return [instructions, userText(describeMeeting(meeting)), await transcriptMessage(params.recording_id, context)];
+      }
+
+      const { meetings, range } = await meetingsInRange(params, context);
+      return [instructions, meetingDigest(meetings, range)];
+    }
+  }),
+
+  definePrompt({
+    name: "follow_up_email",
+    title: "Follow-up email draft",
+    description: "Draft a follow-up email to a meeting's attendees recapping what was agreed and the next steps",
+    schema: z.object({
+      recording_id: recordingIdArgument,
+      recipient: z.string().optional().describe("Who the email is addressed to (default: all external attendees)"),
+      tone: z.string().optional().describe("Tone of the email, e.g. formal or friendly (default: friendly and professional)")
+    }),
+    build: async (params, context) => {
+      const meeting = await meetingOrThrow(params.recording_id, context);
+      return [
+        userText(`Draft a follow-up email to ${params.recipient || 'the external attendees'} of the meeting below, in a ${params.tone || 'friendly and professional'} tone. Thank them for their time, recap what was discussed and agreed in a few bullet points, list next steps with owners and dates, and end with a clear call to action. Only mention things that were actually said in the meeting. Include a subject line.`),
+        userText(describeMeeting(meeting)),
+        await transcriptMessage(params.recording_id, context)
+      ];
+    }
+  }),
+
+  definePrompt({
+    name: "sales_objection_review",
+    title: "Sales objection review",
+    description: "Review objections raised across external calls in a date range and how they were handled",
+    schema: z.object({
+      start_date: startDateArgument,
+      end_date: endDateArgument,
+      attendee_domain: domainArgument
+    }),
+    build: async (params, context) => {
+      const { meetings, range } = await meetingsInRange(params, context, { meeting_type: 'external' });
+      const withTranscripts = meetings.filter(meeting => meeting.recording_id).slice(0, MAX_PROMPT_TRANSCRIPTS);
+
+      const messages = [
+        userText(`Review the sales objections raised in these external calls. For each objection give: the objection (quoted, with meeting and timestamp), its category (price, timing, competition, features, trust, other), how our team responded, and whether the response landed. Then summarise the most common objections and suggest better responses for the ones that weren't handled well.${meetings.length > withTranscripts.length ? ` Full transcripts are included for the ${withTranscripts.length} most recent calls; use summaries for the rest.` : ''}`),
+        meetingDigest(meetings, range)
+      ];
+      for (const meeting of withTranscripts) {
+        messages.push(await transcriptMessage(String(meeting.recording_id), context));
+      }
+      return messages;
+    }
+  })
+];
+
+function promptArguments(schema: PromptSchema): PromptArgument[] {
+  return Object.entries(schema.shape).map(([name, field]) => ({
+    name,
+    description: field.description,
+    required: !field.isOptional()
+  }));
+}
+
+export function registerPrompts(server: Server, context: ToolContext): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: prompts.map(prompt => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: promptArguments(prompt.schema)
+    }))
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    const get = async () => {
+      const prompt = prompts.find(candidate => candidate.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      const input = context.redactor ? await context.redactor.detokenize(args ?? {}) : args ?? {};
+      const parsed = prompt.schema.safeParse(input);
+      if (!parsed.success) {
+        throw new McpError(ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: ${parsed.error.issues.map((issue: z.ZodIssue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+      }
+
+      log.debug(`Building ${name}`, { args: parsed.data });
+      const messages = await prompt.build(parsed.data, context);
+      return {
+        description: prompt.description,
+        messages: context.redactor ? await context.redactor.redact(messages) : messages
+      };
+    };
+
+    if (!context.audit) {
+      return get();
+    }
+    return context.audit.track({
+      type: 'prompt',
+      name,
+      arguments: args,
+      caller: auditCaller(extra.authInfo, extra.sessionId, context.accountId)
+    }, get);
+  });
+}
@@ -0,0 +1,100 @@
+// Request pacing primitives used by FathomClient: a token bucket per API key, a concurrency
+// limiter and exponential backoff with jitter.
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  // Wait until a token is available, then take it
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerSecond * 1000));
+    }
+  }
+
+  // Hold every caller back, e.g. for the Retry-After period of a 429
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private maxConcurrent: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      // The finishing task hands its slot straight to us, so `active` stays the same
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+// Buckets are shared by every client using the same key, since Fathom's limit is per key
+const buckets = new Map<string, TokenBucket>();
+
+export function tokenBucketForKey(apiKey: string, requestsPerMinute: number): TokenBucket {
+  let bucket = buckets.get(apiKey);
+  if (!bucket) {
+    bucket = new TokenBucket(requestsPerMinute, requestsPerMinute / 60);
+    buckets.set(apiKey, bucket);
+  }
+  return bucket;
+}
+
+// Full-jitter exponential backoff: a random delay up to baseMs * 2^attempt, capped at maxMs
+export function backoffDelayMs(attempt: number, baseMs: number = 500, maxMs: number = 30000): number {
+  return Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfterMs(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
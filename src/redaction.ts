@@ -0,0 +1,299 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { AtomicFileWriter } from './atomic-file-writer.js';
+import { MeetingStore } from './meeting-store.js';
+
+export const BUILT_IN_DETECTORS = ['email', 'phone', 'card', 'iban', 'national_id'] as const;
+
+const ruleName = z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Use letters, digits and underscores');
+
+const redactionSchema = z.object({
+  // mask: "[EMAIL]"; tokenize: "[EMAIL_3f9a1c2b7d]", which the same value always gets and
+  // an authorised session can turn back into the original
+  mode: z.enum(['mask', 'tokenize']).default('mask'),
+  detectors: z.array(z.enum(BUILT_IN_DETECTORS)).default([...BUILT_IN_DETECTORS]),
+  // 'external' leaves addresses at internal_domains (and their subdomains) readable
+  emails: z.enum(['all', 'external']).default('all'),
+  internal_domains: z.array(z.string().min(1)).default([]),
+  rules: z.array(z.union([
+    z.object({ name: ruleName, pattern: z.string().min(1), flags: z.string().regex(/^[imsu]*$/).default('') }),
+    z.object({ name: ruleName, terms: z.array(z.string().min(1)).min(1) })
+  ])).default([])
+});
+
+export type RedactionConfig = z.infer<typeof redactionSchema>;
+
+interface Detector {
+  label: string;
+  pattern: RegExp;
+  // Replacement for a match, or undefined to leave it alone
+  redact: (match: string, replace: (value: string) => string) => string | undefined;
+}
+
+interface VaultFile {
+  key: string;
+  tokens: Record<string, string>;
+}
+
+const TOKEN_PATTERN = /\[[A-Z][A-Z0-9_]*_[0-9a-f]{10}\]/g;
+
+// Keys whose values are identifiers, links or times: redacting them would break follow-up
+// tool calls, and a long numeric recording ID would look like a phone number
+const SKIPPED_KEY = /(?:^|_)(?:id|ids|url|uri|at|time)$|^(?:type|mimeType|nextCursor)$/i;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Card numbers carry a Luhn check digit, which rules out most other long digit runs
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, letters to numbers, mod 97 = 1
+function isValidIban(candidate: string): boolean {
+  const iban = candidate.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  const numeric = `${iban.slice(4)}${iban.slice(0, 4)}`.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+function builtInDetector(name: typeof BUILT_IN_DETECTORS[number], config: RedactionConfig): Detector {
+  const internal = config.internal_domains.map(domain => domain.toLowerCase());
+  switch (name) {
+    case 'email':
+      return {
+        label: 'EMAIL',
+        pattern: /(?<![\w.+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+        redact: (match, replace) => {
+          const domain = match.split('@')[1].toLowerCase();
+          const isInternal = internal.some(candidate => domain === candidate || domain.endsWith(`.${candidate}`));
+          return config.emails === 'external' && isInternal ? undefined : replace(match);
+        }
+      };
+    case 'iban':
+      return {
+        label: 'IBAN',
+        pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+        // The pattern can run on into a following group of capitals; drop groups until it checks out
+        redact: (match, replace) => {
+          for (let candidate = match; candidate.length >= 15; candidate = candidate.replace(/ ?[A-Z0-9]+$/, '')) {
+            if (isValidIban(candidate)) {
+              return `${replace(candidate)}${match.slice(candidate.length)}`;
+            }
+          }
+          return undefined;
+        }
+      };
+    case 'card':
+      return {
+        label: 'CARD',
+        pattern: /(?<![\w.]|\d[ -])\d(?:[ -]?\d){12,18}(?![\w]|[ -]\d)/g,
+        redact: (match, replace) => passesLuhn(digitsOf(match)) ? replace(match) : undefined
+      };
+    case 'national_id':
+      return {
+        label: 'NATIONAL_ID',
+        // US Social Security numbers and UK National Insurance numbers
+        pattern: /\b(?:(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}|[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D])\b/g,
+        redact: (match, replace) => replace(match)
+      };
+    case 'phone':
+      return {
+        label: 'PHONE',
+        pattern: /(?<![\w+.]|\d[ .-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d(?:[ .-]?\d){6,14}(?![\w]|[ .-]\d)/g,
+        // Ten or more digits, and not a date such as "2026-03-04 10"
+        redact: (match, replace) => digitsOf(match).length >= 10 && !/^\d{4}-\d{2}-\d{2}/.test(match) ? replace(match) : undefined
+      };
+  }
+}
+
+function ruleDetector(rule: RedactionConfig['rules'][number]): Detector {
+  const pattern = 'terms' in rule
+    ? new RegExp(`(?<![\\w])(?:${[...rule.terms].sort((a, b) => b.length - a.length).map(escapeRegex).join('|')})(?![\\w])`, 'gi')
+    : new RegExp(rule.pattern, rule.flags.includes('g') ? rule.flags : `${rule.flags}g`);
+  return { label: rule.name.toUpperCase(), pattern, redact: (match, replace) => match ? replace(match) : undefined };
+}
+
+export function parseRedactionConfig(raw: unknown): RedactionConfig {
+  const parsed = redactionSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid redaction config at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  if (parsed.data.emails === 'external' && parsed.data.internal_domains.length === 0) {
+    throw new Error('Redaction config sets emails to "external" but lists no internal_domains');
+  }
+  for (const rule of parsed.data.rules) {
+    if ('pattern' in rule) {
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch (error) {
+        throw new Error(`Redaction rule "${rule.name}" has an invalid pattern: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+  return parsed.data;
+}
+
+// Redaction is off unless FATHOM_REDACTION (mask or tokenize) or FATHOM_REDACTION_FILE is set.
+// The file holds the full config; FATHOM_REDACTION alone turns on every built-in detector.
+export function createRedactorFromEnv(meetingStore?: MeetingStore): Redactor | undefined {
+  const mode = process.env.FATHOM_REDACTION;
+  const configFile = process.env.FATHOM_REDACTION_FILE;
+  if ((!mode || mode === 'off') && !configFile) {
+    return undefined;
+  }
+  const raw = configFile ? JSON.parse(fs.readFileSync(configFile, 'utf8')) : {};
+  const config = parseRedactionConfig(mode && mode !== 'off' ? { ...raw, mode } : raw);
+  return new Redactor(config, meetingStore?.directory);
+}
+
+// Removes personal data from everything the server hands to a client. Tokens issued in
+// tokenize mode are kept in <dataDir>/redaction-vault.json (in memory without a store) so
+// they can be revealed, and so a client can pass them back as tool arguments.
+export class Redactor {
+  private detectors: Detector[];
+  private tokens = new Map<string, string>();
+  private key = '';
+  private loaded?: Promise<void>;
+  private writer = new AtomicFileWriter({ mode: 0o600 });
+
+  constructor(private config: RedactionConfig, private dataDir?: string) {
+    // Custom rules run first so they can claim text a broader built-in would also match
+    this.detectors = [
+      ...config.rules.map(ruleDetector),
+      ...(['email', 'iban', 'card', 'national_id', 'phone'] as const)
+        .filter(name => config.detectors.includes(name))
+        .map(name => builtInDetector(name, config))
+    ];
+  }
+
+  get reversible(): boolean {
+    return this.config.mode === 'tokenize';
+  }
+
+  // Redact every string in a tool result, resource or prompt. Strings holding JSON (or JSON
+  // Lines) are redacted value by value so the replacements can't break their escaping.
+  async redact<T>(value: T): Promise<T> {
+    await this.load();
+    const before = this.tokens.size;
+    const redacted = this.walk(value, text => this.redactString(text)) as T;
+    if (this.tokens.size > before) {
+      await this.persist();
+    }
+    return redacted;
+  }
+
+  // Swap known tokens in tool arguments back to the values they stand for
+  async detokenize<T>(value: T): Promise<T> {
+    if (!this.reversible) return value;
+    await this.load();
+    return this.walk(value, text => text.replace(TOKEN_PATTERN, token => this.tokens.get(token) ?? token), false) as T;
+  }
+
+  async reveal(text: string): Promise<{ text: string; revealed: { token: string; value: string }[]; unknown: string[] }> {
+    await this.load();
+    const revealed = new Map<string, string>();
+    const unknown = new Set<string>();
+    const result = text.replace(TOKEN_PATTERN, token => {
+      const value = this.tokens.get(token);
+      if (value === undefined) {
+        unknown.add(token);
+        return token;
+      }
+      revealed.set(token, value);
+      return value;
+    });
+    return { text: result, revealed: [...revealed].map(([token, value]) => ({ token, value })), unknown: [...unknown] };
+  }
+
+  private redactString(text: string): string {
+    return this.detectors.reduce((result, detector) =>
+      result.replace(detector.pattern, match => detector.redact(match, value => this.replacement(detector.label, value)) ?? match), text);
+  }
+
+  private replacement(label: string, value: string): string {
+    if (!this.reversible) {
+      return `[${label}]`;
+    }
+    const token = `[${label}_${createHmac('sha256', this.key).update(`${label}:${value}`).digest('hex').slice(0, 10)}]`;
+    this.tokens.set(token, value);
+    return token;
+  }
+
+  private walk(value: unknown, transform: (text: string) => string, parseJson: boolean = true): unknown {
+    if (typeof value === 'string') {
+      return (parseJson ? this.walkJsonText(value, transform) : undefined) ?? transform(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.walk(item, transform, parseJson));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) =>
+        [key, SKIPPED_KEY.test(key) ? entry : this.walk(entry, transform, parseJson)]));
+    }
+    return value;
+  }
+
+  // JSON keeps its indentation; JSON Lines stay one object per line
+  private walkJsonText(text: string, transform: (text: string) => string): string | undefined {
+    const trimmed = text.trim();
+    if (!/^[[{]/.test(trimmed)) return undefined;
+    try {
+      const parsed = JSON.parse(trimmed);
+      return JSON.stringify(this.walk(parsed, transform), null, /\n\s/.test(trimmed) ? 2 : undefined);
+    } catch {
+      const lines = text.split('\n');
+      try {
+        return lines.map(line => line.trim() ? JSON.stringify(this.walk(JSON.parse(line), transform)) : line).join('\n');
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (this.reversible && this.dataDir) {
+          try {
+            const file = JSON.parse(await fs.promises.readFile(this.vaultPath(), 'utf8')) as VaultFile;
+            this.key = file.key;
+            this.tokens = new Map(Object.entries(file.tokens || {}));
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+              throw error;
+            }
+          }
+        }
+        this.key ||= randomBytes(32).toString('base64');
+      })();
+    }
+    return this.loaded;
+  }
+
+  private vaultPath(): string {
+    return path.join(this.dataDir!, 'redaction-vault.json');
+  }
+
+  private persist(): Promise<void> {
+    if (!this.dataDir) return Promise.resolve();
+    const content = JSON.stringify({ key: this.key, tokens: Object.fromEntries(this.tokens) } satisfies VaultFile);
+    return this.writer.write(this.vaultPath(), content);
+  }
+}
@@ -0,0 +1,160 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  McpError
+} from "@modelcontextprotocol/sdk/types.js";
+import { auditCaller } from "./audit-log.js";
+import { createLogger } from "./logger.js";
+import { formatTranscript } from "./transcript.js";
+import { ToolContext } from "./tools.js";
+import { FathomMeeting } from "./types.js";
+
+const log = createLogger("RESOURCES");
+
+// JSON-RPC error code the MCP spec reserves for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+// How many recent meetings a resources/list page advertises
+const RESOURCE_PAGE_SIZE = 50;
+
+const MEETING_URI = /^fathom:\/\/meetings\/([^/]+)$/;
+const TRANSCRIPT_URI = /^fathom:\/\/meetings\/([^/]+)\/transcript$/;
+const TEAM_MEMBERS_URI = /^fathom:\/\/teams\/([^/]+)\/members$/;
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "fathom://meetings/{recording_id}",
+    name: "meeting",
+    title: "Fathom meeting",
+    description: "A meeting's details: title, date, attendees, summary and action items",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "fathom://meetings/{recording_id}/transcript",
+    name: "meeting_transcript",
+    title: "Fathom meeting transcript",
+    description: "A meeting's full transcript as \"[time] speaker: text\" lines",
+    mimeType: "text/plain"
+  },
+  {
+    uriTemplate: "fathom://teams/{team_id}/members",
+    name: "team_members",
+    title: "Fathom team members",
+    description: "Every member of a Fathom team",
+    mimeType: "application/json"
+  }
+];
+
+export function meetingUri(recordingId: string | number): string {
+  return `fathom://meetings/${encodeURIComponent(String(recordingId))}`;
+}
+
+export function transcriptUri(recordingId: string | number): string {
+  return `${meetingUri(recordingId)}/transcript`;
+}
+
+function meetingResource(meeting: FathomMeeting): Resource {
+  const title = meeting.title || meeting.meeting_title || `Meeting ${meeting.recording_id}`;
+  const date = meeting.scheduled_start_time || meeting.created_at;
+  return {
+    uri: meetingUri(meeting.recording_id!),
+    name: `meeting-${meeting.recording_id}`,
+    title,
+    description: `${title} (${date})`,
+    mimeType: "application/json"
+  };
+}
+
+function jsonContents(uri: string, value: unknown): ReadResourceResult {
+  return {
+    contents: [{
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(value, null, 2)
+    }]
+  };
+}
+
+async function readResource(uri: string, { fathomClient, webhookReceiver, access }: ToolContext): Promise<ReadResourceResult> {
+  let match = TRANSCRIPT_URI.exec(uri);
+  if (match) {
+    const recordingId = decodeURIComponent(match[1]);
+    // Hidden meetings read as missing, so their URIs can't be probed
+    if (access && !await access.allowsRecording(recordingId, webhookReceiver?.getMeeting(recordingId))) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Meeting not found: ${recordingId}`);
+    }
+    const segments = webhookReceiver?.getTranscript(recordingId) ?? await fathomClient.getMeetingTranscriptSegments(recordingId);
+    if (segments.length === 0) {
+      throw new McpError(RESOURCE_NOT_FOUND, `No transcript available for recording ${recordingId}`);
+    }
+    return {
+      contents: [{
+        uri,
+        mimeType: "text/plain",
+        text: formatTranscript(segments)
+      }]
+    };
+  }
+
+  match = MEETING_URI.exec(uri);
+  if (match) {
+    const recordingId = decodeURIComponent(match[1]);
+    const meeting = await fathomClient.getMeeting(recordingId);
+    if (!meeting || (access && !await access.allows(meeting))) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Meeting not found: ${recordingId}`);
+    }
+    const { transcript: _, ...record } = meeting;
+    return jsonContents(uri, record);
+  }
+
+  match = TEAM_MEMBERS_URI.exec(uri);
+  if (match) {
+    const teamId = decodeURIComponent(match[1]);
+    const response = await fathomClient.collectTeamMembers(teamId);
+    return jsonContents(uri, { team_id: teamId, members: response.items });
+  }
+
+  throw new McpError(RESOURCE_NOT_FOUND, `Unknown resource: ${uri}`);
+}
+
+// Expose meetings, transcripts and team members as MCP resources. Change notifications
+// for them are sent by registerNotifications.
+export function registerResources(server: Server, context: ToolContext): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const cursor = request.params?.cursor;
+    log.debug('Listing meetings', { cursor });
+    const response = await context.fathomClient.collectMeetings({ cursor }, { limit: RESOURCE_PAGE_SIZE });
+
+    const meetings = context.access ? await context.access.filter(response.items) : response.items;
+    const result = {
+      resources: meetings.filter(meeting => meeting.recording_id).map(meetingResource),
+      nextCursor: response.next_cursor
+    };
+    return context.redactor ? context.redactor.redact(result) : result;
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    log.debug(`Reading ${request.params.uri}`);
+    const read = async () => {
+      const result = await readResource(request.params.uri, context);
+      return context.redactor ? context.redactor.redact(result) : result;
+    };
+    if (!context.audit) {
+      return read();
+    }
+    return context.audit.track({
+      type: 'resource',
+      name: request.params.uri,
+      caller: auditCaller(extra.authInfo, extra.sessionId, context.accountId)
+    }, read);
+  });
+}
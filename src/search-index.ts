@@ -0,0 +1,422 @@
+import { FathomMeeting, FathomTranscriptSegment, actionItemText } from './types.js';
+
+export type SearchField = 'title' | 'summary' | 'action_item' | 'transcript';
+
+export interface SearchFilters {
+  speaker?: string;
+  created_after?: string;
+  created_before?: string;
+  // Only these meetings (by index key)
+  keys?: Set<string>;
+}
+
+export interface SearchHit {
+  field: SearchField;
+  snippet: string;
+  speaker?: string;
+  timestamp?: string;
+  // Cosine similarity to the query, for hits found by semantic search
+  similarity?: number;
+}
+
+export interface SearchResult {
+  meeting: FathomMeeting;
+  score: number;
+  hits: SearchHit[];
+}
+
+interface Passage {
+  meetingKey: string;
+  field: SearchField;
+  text: string;
+  length: number;
+  speaker?: string;
+  timestamp?: string;
+}
+
+interface IndexedMeeting {
+  meeting: FathomMeeting;
+  passageIds: number[];
+  terms: Set<string>;
+  hasTranscript: boolean;
+}
+
+// Parsed query tree: terms and phrases combined with AND / OR / NOT
+export type QueryNode =
+  | { type: 'term'; term: string }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+// Titles and summaries are short and deliberate, so a match there counts for more than one in passing speech
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  summary: 1.5,
+  action_item: 1.5,
+  transcript: 1
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_RADIUS = 80;
+const MAX_HITS_PER_MEETING = 3;
+
+// Inverted index over meeting titles, summaries, action items and transcript segments.
+// Each indexed unit is a "passage" so hits can point at a single segment with its speaker and timestamp.
+export class SearchIndex {
+  private passages = new Map<number, Passage>();
+  private postings = new Map<string, Map<number, number[]>>();
+  private meetings = new Map<string, IndexedMeeting>();
+  private nextPassageId = 0;
+  private totalLength = 0;
+
+  get size(): number {
+    return this.meetings.size;
+  }
+
+  hasMeeting(key: string, withTranscript: boolean = false): boolean {
+    const indexed = this.meetings.get(key);
+    return !!indexed && (!withTranscript || indexed.hasTranscript);
+  }
+
+  upsertMeeting(key: string, meeting: FathomMeeting, transcript?: FathomTranscriptSegment[]): void {
+    this.removeMeeting(key);
+
+    const passageIds: number[] = [];
+    const terms = new Set<string>();
+    const add = (field: SearchField, text: string | undefined, speaker?: string, timestamp?: string) => {
+      if (!text) return;
+      const tokens = tokenize(text);
+      if (tokens.length === 0) return;
+
+      const id = this.nextPassageId++;
+      this.passages.set(id, { meetingKey: key, field, text, length: tokens.length, speaker, timestamp });
+      this.totalLength += tokens.length;
+      tokens.forEach((token, position) => {
+        terms.add(token.term);
+        let termPostings = this.postings.get(token.term);
+        if (!termPostings) {
+          termPostings = new Map();
+          this.postings.set(token.term, termPostings);
+        }
+        const positions = termPostings.get(id);
+        if (positions) {
+          positions.push(position);
+        } else {
+          termPostings.set(id, [position]);
+        }
+      });
+      passageIds.push(id);
+    };
+
+    add('title', meeting.title || meeting.meeting_title);
+    if (meeting.meeting_title && meeting.meeting_title !== meeting.title) {
+      add('title', meeting.meeting_title);
+    }
+    add('summary', meeting.default_summary);
+    meeting.action_items?.forEach(item => add('action_item', actionItemText(item)));
+    transcript?.forEach(segment =>
+      add('transcript', segment.text, segment.speaker.display_name, segment.timestamp || undefined));
+
+    const { transcript: _, ...record } = meeting;
+    this.meetings.set(key, { meeting: record, passageIds, terms, hasTranscript: !!transcript?.length });
+  }
+
+  removeMeeting(key: string): void {
+    const indexed = this.meetings.get(key);
+    if (!indexed) return;
+
+    for (const id of indexed.passageIds) {
+      const passage = this.passages.get(id);
+      if (!passage) continue;
+      this.totalLength -= passage.length;
+      this.passages.delete(id);
+    }
+    for (const term of indexed.terms) {
+      const termPostings = this.postings.get(term);
+      if (!termPostings) continue;
+      indexed.passageIds.forEach(id => termPostings.delete(id));
+      if (termPostings.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.meetings.delete(key);
+  }
+
+  search(query: string, filters: SearchFilters = {}, limit: number = 20): SearchResult[] {
+    const root = parseQuery(query);
+    if (!root) {
+      return [];
+    }
+
+    const eligibleMeetings = new Set<string>();
+    const after = filters.created_after ? Date.parse(filters.created_after) : undefined;
+    const before = filters.created_before ? Date.parse(filters.created_before) : undefined;
+    for (const [key, indexed] of this.meetings) {
+      const createdAt = Date.parse(indexed.meeting.created_at);
+      if (after !== undefined && !(createdAt > after)) continue;
+      if (before !== undefined && !(createdAt < before)) continue;
+      if (filters.keys && !filters.keys.has(key)) continue;
+      eligibleMeetings.add(key);
+    }
+
+    const speaker = filters.speaker?.toLowerCase();
+    const isEligible = (id: number): boolean => {
+      const passage = this.passages.get(id);
+      if (!passage || !eligibleMeetings.has(passage.meetingKey)) return false;
+      if (speaker) {
+        return passage.field === 'transcript' && !!passage.speaker?.toLowerCase().includes(speaker);
+      }
+      return true;
+    };
+
+    const matches = this.evaluate(root, eligibleMeetings, isEligible);
+    const scoringTerms = positiveTerms(root);
+
+    const results: SearchResult[] = [];
+    for (const [key, passageIds] of matches) {
+      const indexed = this.meetings.get(key)!;
+      const scored = [...passageIds]
+        .map(id => ({ id, score: this.scorePassage(id, scoringTerms) }))
+        .sort((a, b) => b.score - a.score);
+
+      results.push({
+        meeting: { ...indexed.meeting },
+        score: Math.round(scored.reduce((sum, passage) => sum + passage.score, 0) * 1000) / 1000,
+        hits: scored.slice(0, MAX_HITS_PER_MEETING).map(({ id }) => this.buildHit(id, scoringTerms))
+      });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || b.meeting.created_at.localeCompare(a.meeting.created_at))
+      .slice(0, limit);
+  }
+
+  // Returns matching meetings mapped to the passages that satisfied the query
+  private evaluate(node: QueryNode, universe: Set<string>, isEligible: (id: number) => boolean): Map<string, Set<number>> {
+    switch (node.type) {
+      case 'term':
+        return this.groupByMeeting([...(this.postings.get(node.term)?.keys() ?? [])].filter(isEligible));
+
+      case 'phrase':
+        return this.groupByMeeting(this.phrasePassages(node.terms).filter(isEligible));
+
+      case 'and': {
+        const [first, ...rest] = node.children.map(child => this.evaluate(child, universe, isEligible));
+        const result = new Map<string, Set<number>>();
+        for (const [key, ids] of first) {
+          if (rest.every(other => other.has(key))) {
+            result.set(key, new Set([...ids, ...rest.flatMap(other => [...other.get(key)!])]));
+          }
+        }
+        return result;
+      }
+
+      case 'or': {
+        const result = new Map<string, Set<number>>();
+        for (const child of node.children) {
+          for (const [key, ids] of this.evaluate(child, universe, isEligible)) {
+            result.set(key, new Set([...(result.get(key) ?? []), ...ids]));
+          }
+        }
+        return result;
+      }
+
+      case 'not': {
+        const excluded = this.evaluate(node.child, universe, isEligible);
+        const result = new Map<string, Set<number>>();
+        for (const key of universe) {
+          if (!excluded.has(key)) {
+            result.set(key, new Set());
+          }
+        }
+        return result;
+      }
+    }
+  }
+
+  private phrasePassages(terms: string[]): number[] {
+    if (terms.length === 0) return [];
+    const [first, ...rest] = terms.map(term => this.postings.get(term));
+    if (!first || rest.some(termPostings => !termPostings)) return [];
+
+    return [...first.entries()]
+      .filter(([id, positions]) => positions.some(start =>
+        rest.every((termPostings, offset) => termPostings!.get(id)?.includes(start + offset + 1))))
+      .map(([id]) => id);
+  }
+
+  private groupByMeeting(passageIds: number[]): Map<string, Set<number>> {
+    const result = new Map<string, Set<number>>();
+    for (const id of passageIds) {
+      const key = this.passages.get(id)!.meetingKey;
+      if (!result.has(key)) result.set(key, new Set());
+      result.get(key)!.add(id);
+    }
+    return result;
+  }
+
+  private scorePassage(id: number, terms: string[]): number {
+    const passage = this.passages.get(id)!;
+    const passageCount = this.passages.size;
+    const averageLength = passageCount ? this.totalLength / passageCount : 1;
+
+    let score = 0;
+    for (const term of terms) {
+      const termPostings = this.postings.get(term);
+      const frequency = termPostings?.get(id)?.length ?? 0;
+      if (!termPostings || frequency === 0) continue;
+
+      const idf = Math.log(1 + (passageCount - termPostings.size + 0.5) / (termPostings.size + 0.5));
+      score += idf * (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * passage.length / averageLength));
+    }
+    return score * FIELD_BOOSTS[passage.field];
+  }
+
+  private buildHit(id: number, terms: string[]): SearchHit {
+    const passage = this.passages.get(id)!;
+    return {
+      field: passage.field,
+      snippet: buildSnippet(passage.text, new Set(terms)),
+      speaker: passage.speaker,
+      timestamp: passage.timestamp
+    };
+  }
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu)) {
+    tokens.push({ term: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+// Query syntax: words are ANDed by default; "quoted phrases"; AND / OR / NOT (or a leading -
+// on a word, phrase or group); parentheses
+export function parseQuery(query: string): QueryNode | undefined {
+  const tokens = query.match(/-?"[^"]*"?|-?\(|\)|-?[^\s()"]+/g) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseOr = (): QueryNode | undefined => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (peek() === 'OR') {
+      position++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    if (children.length <= 1) return children[0];
+    return { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode | undefined => {
+    const children: QueryNode[] = [];
+    while (position < tokens.length && peek() !== 'OR' && peek() !== ')') {
+      if (peek() === 'AND') {
+        position++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    if (children.length <= 1) return children[0];
+    return { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode | undefined => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      return undefined;
+    }
+    if (token === 'NOT') {
+      const child = parseUnary();
+      return child ? { type: 'not', child } : undefined;
+    }
+    if (token === ')') {
+      return undefined;
+    }
+    if (token.startsWith('-') && token.length > 1) {
+      const child = parseOperand(token.slice(1));
+      return child ? { type: 'not', child } : undefined;
+    }
+    return parseOperand(token);
+  };
+
+  // A word, "quoted phrase" or parenthesised group
+  const parseOperand = (token: string): QueryNode | undefined => {
+    if (token === '(') {
+      const inner = parseOr();
+      if (peek() === ')') position++;
+      return inner;
+    }
+    return termNode(token.startsWith('"') ? token.replace(/"/g, '') : token);
+  };
+
+  const root = parseOr();
+  // parseOr only stops early at a ")" that closes nothing; searching for the part before it
+  // would quietly ignore the rest of the query
+  if (position < tokens.length) {
+    throw new QuerySyntaxError(`Unmatched ")" in search query: ${query}`);
+  }
+  return root;
+}
+
+// A bare word such as "follow-up" tokenizes into several terms; treat it as a phrase
+function termNode(word: string): QueryNode | undefined {
+  const terms = tokenize(word).map(t => t.term);
+  if (terms.length === 0) return undefined;
+  return terms.length === 1 ? { type: 'term', term: terms[0] } : { type: 'phrase', terms };
+}
+
+function positiveTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term':
+      return [node.term];
+    case 'phrase':
+      return node.terms;
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap(positiveTerms))];
+    case 'not':
+      return [];
+  }
+}
+
+function buildSnippet(text: string, terms: Set<string>): string {
+  const tokens = tokenize(text);
+  const matched = tokens.filter(token => terms.has(token.term));
+  if (matched.length === 0) {
+    return text.length > SNIPPET_RADIUS * 2 ? `${text.slice(0, SNIPPET_RADIUS * 2)}…` : text;
+  }
+
+  const start = Math.max(0, matched[0].start - SNIPPET_RADIUS);
+  const end = Math.min(text.length, matched[0].end + SNIPPET_RADIUS);
+  let snippet = '';
+  let cursor = start;
+  for (const token of matched) {
+    if (token.start < start || token.end > end) continue;
+    snippet += `${text.slice(cursor, token.start)}**${text.slice(token.start, token.end)}**`;
+    cursor = token.end;
+  }
+  snippet += text.slice(cursor, end);
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
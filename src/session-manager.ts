@@ -0,0 +1,282 @@
+import { randomUUID } from 'node:crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { FathomAccount } from './fathom-accounts.js';
+import { FathomClient } from './fathom-client.js';
+import { createLogger } from './logger.js';
+import { SessionRecord, SessionStore, SessionTransportType, createSessionStoreFromEnv } from './session-store.js';
+
+const log = createLogger('SESSIONS');
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+// Activity reaches the store at most this often per session, rather than on every request
+const MAX_SAVE_INTERVAL_MS = 30 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface Session {
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  account: FathomAccount;
+  fathomClient: FathomClient;
+  // Authenticated caller that opened the session; later requests must come from the same one
+  principal?: string;
+}
+
+export interface SessionManagerOptions {
+  // Close sessions without a request or an open stream for this long (default: 30 minutes)
+  idleTimeoutMs?: number;
+  // Most open sessions across every instance sharing the store; beyond it the least
+  // recently active are closed (default: 1000)
+  maxSessions?: number;
+}
+
+export interface SessionSummary extends SessionRecord {
+  // Whether this instance holds the session's connection
+  local: boolean;
+}
+
+interface LocalSession {
+  session: Session;
+  record: SessionRecord;
+  lastActiveAt: number;
+  savedAt: number;
+  // GET streams (/mcp or /sse) the client holds open, which keep the session active
+  openStreams: number;
+}
+
+// MCP_SESSION_IDLE_TIMEOUT is in seconds
+export function createSessionManagerFromEnv(): SessionManager {
+  const idleTimeoutMs = (Number(process.env.MCP_SESSION_IDLE_TIMEOUT) || DEFAULT_IDLE_TIMEOUT_MS / 1000) * 1000;
+  const maxSessions = Number(process.env.MCP_MAX_SESSIONS) || DEFAULT_MAX_SESSIONS;
+  return new SessionManager(createSessionStoreFromEnv(idleTimeoutMs + saveInterval(idleTimeoutMs)), { idleTimeoutMs, maxSessions });
+}
+
+function saveInterval(idleTimeoutMs: number): number {
+  return Math.min(MAX_SAVE_INTERVAL_MS, idleTimeoutMs / 4);
+}
+
+// Open MCP sessions: the transports this instance holds, and the records every instance
+// shares through the store. Sessions close when idle, when the cap evicts them, when
+// terminated through the admin endpoint on any instance, or when the client ends them.
+export class SessionManager {
+  readonly instanceId = randomUUID();
+  readonly idleTimeoutMs: number;
+  readonly maxSessions: number;
+  private local = new Map<string, LocalSession>();
+  private timer?: NodeJS.Timeout;
+  private sweeping?: Promise<void>;
+
+  constructor(private store: SessionStore, options: SessionManagerOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.maxSessions = Math.max(1, options.maxSessions ?? DEFAULT_MAX_SESSIONS);
+  }
+
+  // A session this instance holds
+  get(id: string): Session | undefined {
+    return this.local.get(id)?.session;
+  }
+
+  // A session any instance opened, for rebuilding here
+  async stored(id: string): Promise<SessionRecord | undefined> {
+    try {
+      return await this.store.get(id);
+    } catch (error) {
+      log.warn(`Could not look up session ${id}`, { error });
+      return undefined;
+    }
+  }
+
+  async open(id: string, session: Session, details: { transport: SessionTransportType; client_id?: string }): Promise<void> {
+    const now = new Date().toISOString();
+    await this.add(session, {
+      id,
+      transport: details.transport,
+      account_id: session.account.id,
+      principal: session.principal,
+      client_id: details.client_id,
+      instance_id: this.instanceId,
+      created_at: now,
+      last_active_at: now
+    });
+    log.info(`Opened ${details.transport} session ${id} (account ${session.account.id})`);
+    await this.evictBeyondCap(id);
+  }
+
+  // Take over a session another instance (or this one, before a restart) opened
+  async restore(session: Session, record: SessionRecord): Promise<void> {
+    await this.add(session, { ...record, instance_id: this.instanceId, last_active_at: new Date().toISOString() });
+    log.info(`Restored ${record.transport} session ${record.id} (account ${record.account_id})`);
+  }
+
+  touch(id: string): void {
+    const entry = this.local.get(id);
+    if (!entry) {
+      return;
+    }
+    entry.lastActiveAt = Date.now();
+    if (entry.lastActiveAt - entry.savedAt >= saveInterval(this.idleTimeoutMs)) {
+      this.save(entry).catch(error => log.warn(`Could not save session ${id}`, { error }));
+    }
+  }
+
+  // A GET stream on the session opened, or closed; the session isn't idle while one is open
+  streamOpened(id: string): void {
+    const entry = this.local.get(id);
+    if (entry) {
+      entry.openStreams++;
+    }
+  }
+
+  streamClosed(id: string): void {
+    const entry = this.local.get(id);
+    if (entry) {
+      entry.openStreams = Math.max(0, entry.openStreams - 1);
+      this.touch(id);
+    }
+  }
+
+  // The client ended the session, or its connection dropped
+  async closed(id: string): Promise<void> {
+    if (!this.local.delete(id)) {
+      return;
+    }
+    log.info(`Session ${id} closed`);
+    await this.store.delete(id).catch(error => log.warn(`Could not delete session ${id}`, { error }));
+  }
+
+  // End a session wherever it is open. One held by another instance is closed there on its
+  // next sweep.
+  async terminate(id: string): Promise<boolean> {
+    if (this.local.has(id)) {
+      await this.closeLocal(id, false);
+      return true;
+    }
+    if (!(await this.store.get(id))) {
+      return false;
+    }
+    await this.store.delete(id);
+    return true;
+  }
+
+  // Most recently active first
+  async list(): Promise<SessionSummary[]> {
+    const records = await this.store.list();
+    return records.reverse().map(record => {
+      const entry = this.local.get(record.id);
+      return entry
+        ? { ...record, last_active_at: new Date(entry.lastActiveAt).toISOString(), local: true }
+        : { ...record, local: false };
+    });
+  }
+
+  hasAccount(accountId: string): boolean {
+    return [...this.local.values()].some(entry => entry.session.account.id === accountId);
+  }
+
+  countByTransport(): Record<SessionTransportType, number> {
+    const counts: Record<SessionTransportType, number> = { streamable_http: 0, sse: 0 };
+    for (const entry of this.local.values()) {
+      counts[entry.record.transport]++;
+    }
+    return counts;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.sweep(), Math.min(MAX_SWEEP_INTERVAL_MS, this.idleTimeoutMs / 2));
+    this.timer.unref();
+  }
+
+  sweep(): Promise<void> {
+    this.sweeping ??= this.runSweep().finally(() => {
+      this.sweeping = undefined;
+    });
+    return this.sweeping;
+  }
+
+  // Close this instance's connections. Streamable HTTP records stay in a shared store, so
+  // the sessions carry on at another instance or after a restart.
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    for (const [id, entry] of [...this.local]) {
+      await this.closeLocal(id, this.store.shared && entry.record.transport === 'streamable_http');
+    }
+    await this.store.close();
+  }
+
+  private async add(session: Session, record: SessionRecord): Promise<void> {
+    const entry: LocalSession = { session, record, lastActiveAt: Date.now(), savedAt: 0, openStreams: 0 };
+    this.local.set(record.id, entry);
+    try {
+      await this.save(entry);
+    } catch (error) {
+      this.local.delete(record.id);
+      throw error;
+    }
+  }
+
+  private async save(entry: LocalSession): Promise<void> {
+    entry.savedAt = Date.now();
+    entry.record = { ...entry.record, instance_id: this.instanceId, last_active_at: new Date(entry.lastActiveAt).toISOString() };
+    await this.store.save(entry.record);
+  }
+
+  private async evictBeyondCap(keep: string): Promise<void> {
+    try {
+      const records = await this.store.list();
+      const excess = records.filter(record => record.id !== keep).slice(0, Math.max(0, records.length - this.maxSessions));
+      for (const record of excess) {
+        log.info(`Evicting session ${record.id}: ${records.length} sessions open, limit ${this.maxSessions}`);
+        await this.terminate(record.id);
+      }
+    } catch (error) {
+      log.warn('Could not enforce the session limit', { error });
+    }
+  }
+
+  private async closeLocal(id: string, keepRecord: boolean): Promise<void> {
+    const entry = this.local.get(id);
+    if (!entry) {
+      return;
+    }
+    // Removed first, so the transport's close handler finds nothing left to clean up
+    this.local.delete(id);
+    if (!keepRecord) {
+      await this.store.delete(id).catch(error => log.warn(`Could not delete session ${id}`, { error }));
+    }
+    await entry.session.transport.close().catch(error => log.warn(`Error closing transport for session ${id}`, { error }));
+  }
+
+  private async runSweep(): Promise<void> {
+    const listedAt = Date.now();
+    let records: Map<string, SessionRecord> | undefined;
+    try {
+      records = new Map((await this.store.list()).map(record => [record.id, record]));
+    } catch (error) {
+      log.warn('Could not list sessions; checking idle time only', { error });
+    }
+
+    const now = Date.now();
+    for (const [id, entry] of [...this.local]) {
+      const record = records?.get(id);
+      // Sessions saved after the listing started may simply be missing from it
+      if (records && !record && entry.savedAt < listedAt) {
+        log.info(`Session ${id} was ended elsewhere, closing it`);
+        await this.closeLocal(id, false);
+      } else if (record && record.instance_id !== this.instanceId && Date.parse(record.last_active_at) > entry.lastActiveAt) {
+        // The client has moved on to another instance, which now owns the record
+        log.info(`Session ${id} moved to instance ${record.instance_id}, releasing it`);
+        await this.closeLocal(id, true);
+      } else if (entry.openStreams > 0) {
+        // Still connected; refresh the record so it doesn't expire from the store
+        this.touch(id);
+      } else if (now - entry.lastActiveAt > this.idleTimeoutMs) {
+        log.info(`Session ${id} idle for ${Math.round((now - entry.lastActiveAt) / 1000)}s, closing it`);
+        await this.closeLocal(id, false);
+      }
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { Redis } from 'ioredis';
+import { createLogger } from './logger.js';
+
+const log = createLogger('SESSIONS');
+
+export type SessionTransportType = 'streamable_http' | 'sse';
+
+// What instances share about a session. The transport itself lives in the process that
+// holds the client's connection; another instance can rebuild a Streamable HTTP session
+// from this record, but not an SSE one.
+export interface SessionRecord {
+  id: string;
+  transport: SessionTransportType;
+  account_id: string;
+  principal?: string;
+  client_id?: string;
+  // The instance that last served the session
+  instance_id: string;
+  created_at: string;
+  last_active_at: string;
+}
+
+// Records expire once idle for the store's TTL, so sessions of an instance that died
+// without cleaning up disappear on their own
+export interface SessionStore {
+  // Whether other instances see the same records
+  readonly shared: boolean;
+  get(id: string): Promise<SessionRecord | undefined>;
+  save(record: SessionRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Least recently active first
+  list(): Promise<SessionRecord[]>;
+  close(): Promise<void>;
+}
+
+function lastActive(record: SessionRecord): number {
+  return Date.parse(record.last_active_at);
+}
+
+// Sessions of this instance only, lost on restart
+export class MemorySessionStore implements SessionStore {
+  readonly shared = false;
+  private records = new Map<string, SessionRecord>();
+
+  constructor(private ttlMs: number) {}
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    const record = this.records.get(id);
+    if (record && this.expired(record)) {
+      this.records.delete(id);
+      return undefined;
+    }
+    return record;
+  }
+
+  async save(record: SessionRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    for (const record of this.records.values()) {
+      if (this.expired(record)) {
+        this.records.delete(record.id);
+      }
+    }
+    return [...this.records.values()].sort((a, b) => lastActive(a) - lastActive(b));
+  }
+
+  async close(): Promise<void> {}
+
+  private expired(record: SessionRecord): boolean {
+    return Date.now() - lastActive(record) > this.ttlMs;
+  }
+}
+
+// Sessions shared by every instance pointed at the same Redis-compatible server:
+//   <prefix>session:<id>   the record as JSON, expiring after the TTL
+//   <prefix>sessions       sorted set of session IDs scored by last activity
+export class RedisSessionStore implements SessionStore {
+  readonly shared = true;
+
+  constructor(private client: Redis, private ttlMs: number, private prefix: string = 'mcp-fathom:') {}
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    const value = await this.client.get(this.key(id));
+    return value !== null ? JSON.parse(value) : undefined;
+  }
+
+  async save(record: SessionRecord): Promise<void> {
+    await this.client.multi()
+      .set(this.key(record.id), JSON.stringify(record), 'PX', Math.ceil(this.ttlMs))
+      .zadd(this.index, lastActive(record), record.id)
+      .exec();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.multi()
+      .del(this.key(id))
+      .zrem(this.index, id)
+      .exec();
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    const ids = await this.client.zrange(this.index, 0, '-1');
+    if (ids.length === 0) {
+      return [];
+    }
+    const values = await this.client.mget(ids.map(id => this.key(id)));
+    const records: SessionRecord[] = [];
+    const expired: string[] = [];
+    values.forEach((value, index) => {
+      if (value !== null) {
+        records.push(JSON.parse(value));
+      } else {
+        expired.push(ids[index]);
+      }
+    });
+    // The record expired on its own; the index entry doesn't
+    if (expired.length > 0) {
+      await this.client.zrem(this.index, ...expired);
+    }
+    return records.sort((a, b) => lastActive(a) - lastActive(b));
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private get index(): string {
+    return `${this.prefix}sessions`;
+  }
+
+  private key(id: string): string {
+    return `${this.prefix}session:${id}`;
+  }
+}
+
+// MCP_SESSION_STORE_URL (redis:// or rediss://) shares sessions between instances;
+// without it they are kept in memory. MCP_SESSION_STORE_PREFIX namespaces the keys.
+export function createSessionStoreFromEnv(ttlMs: number): SessionStore {
+  const url = process.env.MCP_SESSION_STORE_URL;
+  if (!url) {
+    return new MemorySessionStore(ttlMs);
+  }
+  const { hostname, port } = new URL(url);
+  log.info(`Sharing sessions through ${hostname}:${port || 6379}`);
+  // Fail a command after a few reconnect attempts rather than holding the request open
+  const client = new Redis(url, { maxRetriesPerRequest: 2, connectTimeout: 10000, commandTimeout: 10000 });
+  client.on('error', error => log.warn('Session store connection error', { error }));
+  return new RedisSessionStore(client, ttlMs, process.env.MCP_SESSION_STORE_PREFIX || undefined);
+}
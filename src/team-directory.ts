@@ -0,0 +1,72 @@
+import { FathomClient } from './fathom-client.js';
+import { Logger, createLogger } from './logger.js';
+import { FathomTeamMember } from './types.js';
+
+// Team membership changes rarely; refresh the directory at most this often
+const TEAM_DIRECTORY_TTL_MS = 60 * 60 * 1000;
+// After a failed fetch, wait this long before asking Fathom again
+const TEAM_DIRECTORY_RETRY_MS = 60 * 1000;
+
+// Which teams each member of an account belongs to, for matching meetings on their
+// recorder's team, and who the members are. Team membership isn't part of the meeting record.
+export class TeamDirectory {
+  private teamsByEmail = new Map<string, string[]>();
+  private memberList: FathomTeamMember[] = [];
+  private fetchedAt = 0;
+  private failedAt = 0;
+  private loading?: Promise<Map<string, string[]>>;
+  private log: Logger;
+
+  constructor(private fathomClient: FathomClient, logTag: string = 'TEAMS') {
+    this.log = createLogger(logTag);
+  }
+
+  // Email (lowercase) -> names and IDs of that member's teams
+  load(): Promise<Map<string, string[]>> {
+    if (Date.now() - this.fetchedAt < TEAM_DIRECTORY_TTL_MS || Date.now() - this.failedAt < TEAM_DIRECTORY_RETRY_MS) {
+      return Promise.resolve(this.teamsByEmail);
+    }
+    this.loading ??= this.fetch().finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  // Whether a fetch has ever succeeded. Until one has, the directory is empty rather than
+  // telling that nobody belongs to a team.
+  get available(): boolean {
+    return this.fetchedAt > 0;
+  }
+
+  async teamsOf(email: string | undefined): Promise<string[]> {
+    return email ? (await this.load()).get(email.toLowerCase()) ?? [] : [];
+  }
+
+  // Every member of every team, once each
+  async members(): Promise<FathomTeamMember[]> {
+    await this.load();
+    return this.memberList;
+  }
+
+  private async fetch(): Promise<Map<string, string[]>> {
+    try {
+      const teamsByEmail = new Map<string, string[]>();
+      const members = new Map<string, FathomTeamMember>();
+      for (const team of (await this.fathomClient.collectTeams()).items) {
+        for (const member of (await this.fathomClient.collectTeamMembers(team.id)).items) {
+          const email = member.email.toLowerCase();
+          teamsByEmail.set(email, [...(teamsByEmail.get(email) ?? []), team.name, team.id]);
+          members.set(email, member);
+        }
+      }
+      this.teamsByEmail = teamsByEmail;
+      this.memberList = [...members.values()];
+      this.fetchedAt = Date.now();
+    } catch (error) {
+      // Keep the last directory rather than treating everyone as teamless, and try again soon
+      this.log.warn('Could not load team members', { error });
+      this.failedAt = Date.now();
+    }
+    return this.teamsByEmail;
+  }
+}
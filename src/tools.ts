@@ -0,0 +1,972 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  CallToolRequest,
+  CallToolResult
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { MeetingAccess } from "./access-policy.js";
+import { buildAccountTimeline } from "./account-timeline.js";
+import { ActionItem, ActionItemTracker } from "./action-items.js";
+import { AuditLog, auditCaller } from "./audit-log.js";
+import { PII_SCOPE, READ_SCOPE, WEBHOOKS_SCOPE, hasScope } from "./auth.js";
+import { FathomClient } from "./fathom-client.js";
+import { createLogger } from "./logger.js";
+import { computeMeetingAnalytics } from "./meeting-analytics.js";
+import { exportDirectory, exportMeetings, writeExportFiles } from "./meeting-export.js";
+import { MeetingStore } from "./meeting-store.js";
+import { toolCallDuration, toolCallsTotal } from "./metrics.js";
+import { Redactor } from "./redaction.js";
+import { SpanKind, setSpanError, withSpan } from "./tracing.js";
+import { filterTranscriptSegments, formatTranscript } from "./transcript.js";
+import { FathomMeeting, FathomTranscriptSegment } from "./types.js";
+import { WebhookReceiver } from "./webhook-receiver.js";
+import { WebhookRegistry, deliverTestWebhook } from "./webhook-registry.js";
+
+// Everything a tool handler may need; transports fill in what they support
+export interface ToolContext {
+  fathomClient: FathomClient;
+  meetingStore?: MeetingStore;
+  actionItems?: ActionItemTracker;
+  webhookReceiver?: WebhookReceiver;
+  webhooks?: WebhookRegistry;
+  redactor?: Redactor;
+  // The caller's access policy; unset when they may see every meeting
+  access?: MeetingAccess;
+  // Records every tool call, resource read and prompt, with the Fathom account they ran against
+  audit?: AuditLog;
+  accountId?: string;
+  // Scopes of callers without an access token; READ_SCOPE only when unset. Over stdio the
+  // caller is the local user, who gets every scope.
+  anonymousScopes?: string[];
+}
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  handler: (params: z.infer<S>, context: ToolContext) => Promise<CallToolResult>;
+  // OAuth scope the caller's token needs; defaults to READ_SCOPE
+  scope?: string;
+  // Hide the tool when the transport can't support it (e.g. no webhook receiver over stdio)
+  isAvailable?: (context: ToolContext) => boolean;
+  // Set to false for output that holds no meeting content and must stay intact, like webhook secrets
+  redact?: boolean;
+}
+
+// Each handler is type-checked against its own schema, then kept behind one that parses its
+// arguments, so tools with different schemas share the list
+function defineTool<S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition {
+  return { ...tool, handler: (params, context) => tool.handler(tool.schema.parse(params), context) };
+}
+
+export function textResult(text: string): CallToolResult {
+  return {
+    content: [{
+      type: "text",
+      text
+    }]
+  };
+}
+
+export function jsonResult(value: unknown): CallToolResult {
+  return textResult(JSON.stringify(value, null, 2));
+}
+
+function formatMeeting(meeting: FathomMeeting) {
+  return {
+    title: meeting.title || meeting.meeting_title,
+    date: meeting.scheduled_start_time || meeting.created_at,
+    url: meeting.share_url || meeting.url,
+    recording_id: meeting.recording_id,
+    attendees: meeting.calendar_invitees,
+    recorded_by: meeting.recorded_by,
+    summary: meeting.default_summary,
+    action_items: meeting.action_items,
+    crm_matches: meeting.crm_matches ?? undefined
+  };
+}
+
+const ListMeetingsSchema = z.object({
+  calendar_invitees: z.array(z.string()).optional().describe("Filter by attendee email addresses"),
+  calendar_invitees_domains: z.array(z.string()).optional().describe("Filter by company domains"),
+  created_after: z.string().optional().describe("Filter meetings created after this date (ISO 8601)"),
+  created_before: z.string().optional().describe("Filter meetings created before this date (ISO 8601)"),
+  include_transcript: z.boolean().optional().default(false).describe("Include meeting transcripts"),
+  meeting_type: z.enum(['all', 'internal', 'external']).optional().default('all').describe("Filter by meeting type"),
+  recorded_by: z.array(z.string()).optional().describe("Filter by meeting owner email addresses"),
+  teams: z.array(z.string()).optional().describe("Filter by team names"),
+  limit: z.number().optional().default(50).describe("Maximum number of meetings to return, following pages as needed"),
+  cursor: z.string().optional().describe("Resume from the next_cursor returned by a previous call"),
+  fetch_all: z.boolean().optional().default(false).describe("Ignore limit and return every page of results"),
+  max_pages: z.number().optional().describe("Stop after fetching this many pages")
+});
+
+const SearchMeetingsSchema = z.object({
+  search_term: z.string().describe("Search query over meeting titles, summaries, action items and transcripts. Words must all match; use \"quoted phrases\", OR, NOT (or a leading - on a word, \"phrase\" or group) and parentheses, e.g. 'pricing AND (\"enterprise plan\" OR discount) -internal'"),
+  include_transcript: z.boolean().optional().default(true).describe("Search within full meeting transcripts (default: true). Transcripts not yet stored locally are fetched, up to max_transcript_fetches per search."),
+  max_transcript_fetches: z.number().int().min(0).optional().default(10).describe("Transcripts not yet stored locally are fetched from Fathom, up to this many per call; the rest are searched by later calls"),
+  speaker: z.string().optional().describe("Only match transcript segments spoken by this speaker (case-insensitive name match)"),
+  created_after: z.string().optional().describe("Only search meetings created after this date (ISO 8601)"),
+  created_before: z.string().optional().describe("Only search meetings created before this date (ISO 8601)"),
+  mode: z.enum(['keyword', 'semantic', 'hybrid']).optional().describe("'keyword' for exact terms and boolean queries, 'semantic' to rank transcript passages by meaning, 'hybrid' (default when embeddings are enabled) to combine both"),
+  limit: z.number().optional().default(20).describe("Maximum number of meetings to return")
+});
+
+const GetMeetingTranscriptSchema = z.object({
+  recording_id: z.string().describe("The recording ID of the meeting"),
+  summarize: z.boolean().optional().default(false).describe("Whether to return a request for Claude to summarize the transcript"),
+  format: z.enum(['text', 'json']).optional().default('text').describe("'text' for \"[time] speaker: text\" lines, 'json' for structured segments with speaker and timestamp fields"),
+  speaker: z.string().optional().describe("Only include segments spoken by this speaker (name substring or exact email)"),
+  start_time: z.string().optional().describe("Only include segments at or after this time (HH:MM:SS, MM:SS or seconds)"),
+  end_time: z.string().optional().describe("Only include segments at or before this time (HH:MM:SS, MM:SS or seconds)")
+});
+
+const ListTeamsSchema = z.object({
+  cursor: z.string().optional().describe("Resume from the next_cursor returned by a previous call"),
+  fetch_all: z.boolean().optional().default(true).describe("Follow next_cursor to return every page (default: true); false returns a single page"),
+  max_pages: z.number().optional().describe("Stop after fetching this many pages")
+});
+
+const ListTeamMembersSchema = z.object({
+  team_id: z.string().describe("The ID of the team to list members for"),
+  cursor: z.string().optional().describe("Resume from the next_cursor returned by a previous call"),
+  fetch_all: z.boolean().optional().default(true).describe("Follow next_cursor to return every page (default: true); false returns a single page"),
+  max_pages: z.number().optional().describe("Stop after fetching this many pages")
+});
+
+const CreateWebhookSchema = z.object({
+  url: z.string().describe("The URL to send webhook notifications to"),
+  include_transcript: z.boolean().optional().default(false).describe("Include meeting transcripts in webhook payload"),
+  include_summary: z.boolean().optional().default(true).describe("Include meeting summaries in webhook payload"),
+  include_action_items: z.boolean().optional().default(true).describe("Include action items in webhook payload")
+});
+
+const DeleteWebhookSchema = z.object({
+  webhook_id: z.string().describe("The ID of the webhook to delete")
+});
+
+const ListWebhooksSchema = z.object({});
+
+const GetWebhookSchema = z.object({
+  webhook_id: z.string().describe("The ID of the webhook"),
+  include_secret: z.boolean().optional().default(false).describe("Also return the decrypted signing secret")
+});
+
+const RotateWebhookSchema = z.object({
+  webhook_id: z.string().describe("The ID of the webhook to replace"),
+  verify: z.boolean().optional().default(false).describe("Send a signed test delivery with the new secret before deleting the old webhook, and abort if the receiver rejects it. Only for receivers that take new secrets from this server, such as its own /webhooks/fathom; other receivers can't know the new secret yet (default: false)")
+});
+
+const TestWebhookSchema = z.object({
+  webhook_id: z.string().describe("A webhook from list_webhooks; its URL and stored secret are used")
+});
+
+const SyncMeetingsSchema = z.object({
+  force: z.boolean().optional().default(true).describe("Sync even if the last sync was less than a minute ago"),
+  include_transcripts: z.boolean().optional().default(false).describe("Also fetch every transcript not yet stored locally, so search_meetings covers the full history (slow on first run)")
+});
+
+const ListReceivedMeetingsSchema = z.object({
+  limit: z.number().optional().default(20).describe("Maximum number of meetings to return")
+});
+
+const ListActionItemsSchema = z.object({
+  status: z.enum(['open', 'done', 'all']).optional().default('open').describe("Filter by status (default: open)"),
+  owner: z.string().optional().describe("Filter by owner email, or part of the owner's name"),
+  recording_id: z.string().optional().describe("Only items from this meeting"),
+  meeting_after: z.string().optional().describe("Only items from meetings after this date (ISO 8601)"),
+  meeting_before: z.string().optional().describe("Only items from meetings before this date (ISO 8601)"),
+  due_before: z.string().optional().describe("Only items due before this date (YYYY-MM-DD)"),
+  limit: z.number().optional().default(50).describe("Maximum number of items to return")
+});
+
+const UpdateActionItemSchema = z.object({
+  id: z.string().describe("The action item ID returned by list_action_items"),
+  status: z.enum(['open', 'done']).optional().describe("Mark the item open or done"),
+  owner_email: z.string().optional().describe("Reassign the item to this email address"),
+  owner_name: z.string().optional().describe("Display name of the new owner"),
+  due_date: z.string().optional().describe("Due date (YYYY-MM-DD)"),
+  notes: z.string().optional().describe("Free-text notes, replacing any existing notes")
+});
+
+const ActionItemsByPersonSchema = z.object({
+  status: z.enum(['open', 'done', 'all']).optional().default('open').describe("Filter by status (default: open)"),
+  meeting_after: z.string().optional().describe("Only items from meetings after this date (ISO 8601)"),
+  meeting_before: z.string().optional().describe("Only items from meetings before this date (ISO 8601)")
+});
+
+const MeetingAnalyticsSchema = z.object({
+  created_after: z.string().optional().describe("Only meetings created after this date (ISO 8601)"),
+  created_before: z.string().optional().describe("Only meetings created before this date (ISO 8601)"),
+  team: z.string().optional().describe("Only meetings recorded by members of this team (team name)"),
+  attendee_domain: z.string().optional().describe("Only meetings with an attendee from this company domain, e.g. acme.com"),
+  include_talk_time: z.boolean().optional().default(true).describe("Compute per-speaker talk time from transcripts (default: true)"),
+  max_meetings: z.number().optional().default(200).describe("Maximum number of meetings to analyze"),
+  max_transcript_fetches: z.number().optional().default(10).describe("Transcripts not yet stored locally are fetched from Fathom, up to this many per call")
+});
+
+const AccountTimelineSchema = z.object({
+  domain: z.string().optional().describe("Company email domain of the account, e.g. acme.com"),
+  crm_account: z.string().optional().describe("CRM company or deal name, or its CRM record URL, as matched by Fathom"),
+  created_after: z.string().optional().describe("Only meetings created after this date (ISO 8601)"),
+  created_before: z.string().optional().describe("Only meetings created before this date (ISO 8601)"),
+  max_meetings: z.number().optional().default(200).describe("Maximum number of meetings to scan")
+});
+
+const ExportMeetingsSchema = z.object({
+  format: z.enum(['markdown', 'jsonl', 'csv', 'srt', 'vtt']).describe("'markdown' for one note per meeting with YAML frontmatter, 'jsonl' for one JSON record per line, 'csv' for a one-row-per-meeting summary, 'srt' or 'vtt' for captions built from transcript timestamps"),
+  recording_ids: z.array(z.string()).optional().describe("Export these meetings; when set the other filters are ignored"),
+  created_after: z.string().optional().describe("Only meetings created after this date (ISO 8601)"),
+  created_before: z.string().optional().describe("Only meetings created before this date (ISO 8601)"),
+  attendee_domain: z.string().optional().describe("Only meetings with an attendee from this company domain, e.g. acme.com"),
+  meeting_type: z.enum(['all', 'internal', 'external']).optional().default('all').describe("Filter by meeting type"),
+  include_transcript: z.boolean().optional().default(true).describe("Include transcripts in Markdown and JSON Lines exports (always on for captions, unused for CSV)"),
+  destination: z.enum(['inline', 'files']).optional().default('inline').describe("'inline' returns the files in the response; 'files' writes them to the server's export directory"),
+  limit: z.number().optional().default(20).describe("Maximum number of meetings to export")
+});
+
+const RevealRedactedSchema = z.object({
+  text: z.string().describe("Text containing redaction tokens such as [EMAIL_3f9a1c2b7d], or just the tokens")
+});
+
+// Keep inline exports to a size a client can reasonably hold in context
+const MAX_INLINE_EXPORT_BYTES = 1_000_000;
+
+const log = createLogger('TOOLS');
+
+// Keep the tracker current before answering; a failed sync still leaves the stored items usable
+async function syncActionItems({ fathomClient, actionItems }: ToolContext): Promise<ActionItemTracker> {
+  try {
+    await actionItems!.sync(fathomClient);
+  } catch (error) {
+    log.warn('Action item sync failed, answering from stored items', { error });
+  }
+  return actionItems!;
+}
+
+// Meetings the caller's access policy hides are left out as if they didn't exist
+async function visibleMeetings<T extends FathomMeeting>({ access }: ToolContext, meetings: T[]): Promise<T[]> {
+  return access ? access.filter(meetings) : meetings;
+}
+
+async function assertMeetingVisible({ access, webhookReceiver }: ToolContext, recordingId: string): Promise<void> {
+  if (access && !await access.allowsRecording(recordingId, webhookReceiver?.getMeeting(recordingId))) {
+    throw new Error(`Meeting not found: ${recordingId}`);
+  }
+}
+
+async function visibleActionItems({ access }: ToolContext, items: ActionItem[]): Promise<ActionItem[]> {
+  if (!access) {
+    return items;
+  }
+  const recordingIds = [...new Set(items.map(item => item.recording_id))];
+  const allowed = await Promise.all(recordingIds.map(id => access.allowsRecording(id)));
+  const visible = new Set(recordingIds.filter((id, index) => allowed[index]));
+  return items.filter(item => visible.has(item.recording_id));
+}
+
+function formatActionItem(item: ActionItem) {
+  return {
+    id: item.id,
+    text: item.text,
+    status: item.status,
+    owner: item.owner_name || item.owner_email,
+    owner_email: item.owner_email,
+    due_date: item.due_date,
+    due_hint: item.due_hint,
+    notes: item.notes,
+    meeting: {
+      recording_id: item.recording_id,
+      title: item.meeting_title,
+      date: item.meeting_date
+    }
+  };
+}
+
+export const tools: ToolDefinition[] = [
+  defineTool({
+    name: "list_meetings",
+    description: "List Fathom meetings with optional filters. Returns meeting titles, summaries, dates, and participants.",
+    schema: ListMeetingsSchema,
+    handler: async (params, context) => {
+      const { limit, fetch_all, max_pages, ...apiParams } = params;
+
+      log.debug('Fetching meetings', { tool: 'list_meetings', params: apiParams });
+      const response = await context.fathomClient.collectMeetings(apiParams, {
+        limit: fetch_all ? undefined : limit,
+        maxPages: max_pages
+      });
+      log.debug(`Got ${response.items.length} meetings from ${response.pages_fetched} page(s)`, { tool: 'list_meetings' });
+      const meetings = await visibleMeetings(context, response.items);
+
+      return jsonResult({
+        showing: meetings.length,
+        pages_fetched: response.pages_fetched,
+        meetings: meetings.map(meeting => ({
+          ...formatMeeting(meeting),
+          transcript: params.include_transcript ? meeting.transcript : undefined
+        })),
+        has_more: !!response.next_cursor,
+        next_cursor: response.next_cursor
+      });
+    }
+  }),
+
+  defineTool({
+    name: "search_meetings",
+    description: "Search meetings by keywords, phrases and boolean queries across titles, summaries, action items AND full transcripts (default). Searches every synced meeting, optionally filtered by speaker and date range. In hybrid mode (the default when embeddings are enabled) transcript passages are also ranked by meaning, so related wording matches too. Results are ranked by relevance and include matching snippets with speaker and timestamp. Best for questions like 'where did we discuss pricing' where the topic may not appear in titles/summaries.",
+    schema: SearchMeetingsSchema,
+    handler: async (params, { fathomClient, access }) => {
+      log.debug(`Searching for: "${params.search_term}" (transcript=${params.include_transcript}, mode=${params.mode ?? 'default'})`, { tool: 'search_meetings' });
+      const response = await fathomClient.searchMeetings(params.search_term, {
+        include: access && await access.predicate(),
+        includeTranscript: params.include_transcript,
+        speaker: params.speaker,
+        created_after: params.created_after,
+        created_before: params.created_before,
+        mode: params.mode,
+        limit: params.limit,
+        maxTranscriptFetches: params.max_transcript_fetches
+      });
+      log.debug(`Found ${response.results.length} matching meetings (${response.mode})`, { tool: 'search_meetings' });
+
+      const truncated = response.transcripts_pending > 0 || !!response.embeddings_pending;
+      return jsonResult({
+        search_term: params.search_term,
+        mode: response.mode,
+        total_found: response.results.length,
+        meetings_searched: response.meetings_searched,
+        truncated,
+        transcripts_pending: response.transcripts_pending,
+        embeddings_pending: response.embeddings_pending,
+        note: truncated
+          ? `Not every meeting was fully searched: ${response.transcripts_pending} transcripts and ${response.embeddings_pending ?? 0} embeddings are pending. ` +
+            'Search again (or raise max_transcript_fetches) to cover them, or run sync_meetings with include_transcripts.'
+          : undefined,
+        meetings: response.results.map(({ meeting, score, hits }) => ({
+          ...formatMeeting(meeting),
+          share_url: meeting.share_url,
+          score,
+          hits
+        }))
+      });
+    }
+  }),
+
+  defineTool({
+    name: "get_meeting_transcript",
+    description: "Get the full transcript of a specific meeting by recording ID. Useful for detailed analysis or summarization of meeting content.",
+    schema: GetMeetingTranscriptSchema,
+    handler: async (params, context) => {
+      const { fathomClient, webhookReceiver } = context;
+      await assertMeetingVisible(context, params.recording_id);
+
+      // Prefer a transcript already delivered by webhook over another API round-trip
+      const receivedSegments = webhookReceiver?.getTranscript(params.recording_id);
+      log.debug(`Fetching transcript for recording: ${params.recording_id}${receivedSegments ? ' (from webhook)' : ''}`, { tool: 'get_meeting_transcript' });
+      const allSegments = receivedSegments ?? await fathomClient.getMeetingTranscriptSegments(params.recording_id);
+      log.debug(`Got transcript (${allSegments.length} segments)`, { tool: 'get_meeting_transcript' });
+
+      // Handle empty transcript
+      if (allSegments.length === 0) {
+        return textResult(`No transcript available for recording ${params.recording_id}. The meeting may still be processing, or transcription may not be available.`);
+      }
+
+      const segments = filterTranscriptSegments(allSegments, params);
+
+      if (params.format === "json") {
+        return jsonResult({
+          recording_id: params.recording_id,
+          total_segments: allSegments.length,
+          showing: segments.length,
+          speakers: [...new Set(allSegments.map(segment => segment.speaker.display_name))],
+          segments
+        });
+      }
+
+      if (segments.length === 0) {
+        return textResult(`No transcript segments in recording ${params.recording_id} match the speaker/time filters.`);
+      }
+
+      const transcript = formatTranscript(segments);
+      return textResult(params.summarize
+        ? `Please summarize this meeting transcript:\n\n${transcript}`
+        : transcript);
+    }
+  }),
+
+  defineTool({
+    name: "list_teams",
+    description: "List all teams accessible to the authenticated user.",
+    schema: ListTeamsSchema,
+    handler: async (params, { fathomClient }) => {
+      log.debug('Fetching teams', { tool: 'list_teams' });
+      const response = await fathomClient.collectTeams({
+        cursor: params.cursor,
+        maxPages: params.fetch_all ? params.max_pages : 1
+      });
+      log.debug(`Got ${response.items.length} teams from ${response.pages_fetched} page(s)`, { tool: 'list_teams' });
+
+      return jsonResult({
+        total_teams: response.items.length,
+        teams: response.items,
+        has_more: !!response.next_cursor,
+        next_cursor: response.next_cursor
+      });
+    }
+  }),
+
+  defineTool({
+    name: "list_team_members",
+    description: "List all members of a specific team.",
+    schema: ListTeamMembersSchema,
+    handler: async (params, { fathomClient }) => {
+      log.debug(`Fetching members for team: ${params.team_id}`, { tool: 'list_team_members' });
+      const response = await fathomClient.collectTeamMembers(params.team_id, {
+        cursor: params.cursor,
+        maxPages: params.fetch_all ? params.max_pages : 1
+      });
+      log.debug(`Got ${response.items.length} members from ${response.pages_fetched} page(s)`, { tool: 'list_team_members' });
+
+      return jsonResult({
+        team_id: params.team_id,
+        total_members: response.items.length,
+        members: response.items,
+        has_more: !!response.next_cursor,
+        next_cursor: response.next_cursor
+      });
+    }
+  }),
+
+  defineTool({
+    name: "create_webhook",
+    description: "Create a webhook to receive real-time notifications when new meetings are ready. Returns webhook ID and secret for verification.",
+    schema: CreateWebhookSchema,
+    scope: WEBHOOKS_SCOPE,
+    redact: false,
+    handler: async (params, { fathomClient, webhookReceiver, webhooks }) => {
+      log.info(`Creating webhook for URL: ${params.url}`, { tool: 'create_webhook' });
+      const response = await fathomClient.createWebhook(params);
+      webhookReceiver?.addSecret(response.secret);
+      await webhooks?.add(response.webhook, response.secret);
+      log.info(`Created webhook: ${response.webhook.id}`, { tool: 'create_webhook' });
+
+      return jsonResult({
+        webhook: response.webhook,
+        secret: response.secret,
+        note: webhooks
+          ? "The secret is stored encrypted in the local webhook registry; get_webhook with include_secret returns it again."
+          : "Save this secret securely - it's needed to verify webhook signatures and won't be shown again."
+      });
+    }
+  }),
+
+  defineTool({
+    name: "delete_webhook",
+    description: "Delete an existing webhook by its ID.",
+    schema: DeleteWebhookSchema,
+    scope: WEBHOOKS_SCOPE,
+    redact: false,
+    handler: async (params, { fathomClient, webhookReceiver, webhooks }) => {
+      log.info(`Deleting webhook: ${params.webhook_id}`, { tool: 'delete_webhook' });
+      const secret = await webhooks?.getSecret(params.webhook_id);
+      await fathomClient.deleteWebhook(params);
+      await webhooks?.remove(params.webhook_id);
+      // Deliveries signed with the deleted webhook's secret are no longer accepted
+      if (secret) {
+        webhookReceiver?.removeSecret(secret);
+      }
+      log.info(`Deleted webhook: ${params.webhook_id}`, { tool: 'delete_webhook' });
+
+      return jsonResult({
+        success: true,
+        webhook_id: params.webhook_id,
+        message: "Webhook deleted successfully"
+      });
+    }
+  }),
+
+  defineTool({
+    name: "list_webhooks",
+    description: "List the webhooks created through this server, with their URLs, payload options and last test result. Fathom's API has no webhook listing, so webhooks created elsewhere don't appear.",
+    schema: ListWebhooksSchema,
+    scope: WEBHOOKS_SCOPE,
+    redact: false,
+    isAvailable: context => !!context.webhooks,
+    handler: async (_params, { webhooks }) => {
+      const registered = await webhooks!.list();
+      log.debug(`${registered.length} registered webhooks`, { tool: 'list_webhooks' });
+      return jsonResult({ total: registered.length, webhooks: registered });
+    }
+  }),
+
+  defineTool({
+    name: "get_webhook",
+    description: "Get a webhook created through this server by ID, optionally including its signing secret.",
+    schema: GetWebhookSchema,
+    scope: WEBHOOKS_SCOPE,
+    redact: false,
+    isAvailable: context => !!context.webhooks,
+    handler: async (params, { webhooks }) => {
+      const webhook = await webhooks!.get(params.webhook_id);
+      if (!webhook) {
+        throw new Error(`Webhook ${params.webhook_id} is not in the local registry`);
+      }
+      log.debug(`Returning webhook ${params.webhook_id}${params.include_secret ? ' with secret' : ''}`, { tool: 'get_webhook' });
+      return jsonResult({
+        webhook,
+        secret: params.include_secret ? await webhooks!.getSecret(params.webhook_id) : undefined
+      });
+    }
+  }),
+
+  defineTool({
+    name: "rotate_webhook",
+    description: "Replace a webhook's signing secret: creates a new webhook with the same URL and options, optionally checks the receiver accepts a delivery signed with the new secret, then deletes the old webhook. If the check fails the new webhook is removed and the old one kept.",
+    schema: RotateWebhookSchema,
+    scope: WEBHOOKS_SCOPE,
+    redact: false,
+    isAvailable: context => !!context.webhooks,
+    handler: async (params, { fathomClient, webhookReceiver, webhooks }) => {
+      const old = await webhooks!.get(params.webhook_id);
+      if (!old) {
+        throw new Error(`Webhook ${params.webhook_id} is not in the local registry; only webhooks created through this server can be rotated`);
+      }
+
+      log.info(`Creating replacement for webhook ${old.id}`, { tool: 'rotate_webhook' });
+      const created = await fathomClient.createWebhook({
+        url: old.url,
+        include_transcript: old.include_transcript,
+        include_summary: old.include_summary,
+        include_action_items: old.include_action_items
+      });
+      // Our own receiver must accept the new secret before the verification delivery arrives
+      webhookReceiver?.addSecret(created.secret);
+      await webhooks!.add(created.webhook, created.secret, old.id);
+
+      const verification = params.verify ? await deliverTestWebhook(old.url, created.secret) : undefined;
+      if (verification && !verification.ok) {
+        await fathomClient.deleteWebhook({ webhook_id: created.webhook.id });
+        await webhooks!.remove(created.webhook.id);
+        webhookReceiver?.removeSecret(created.secret);
+        throw new Error(`Rotation aborted, webhook ${old.id} kept: the receiver rejected a delivery signed with the new secret (${verification.error})`);
+      }
+      if (verification) {
+        await webhooks!.recordTest(created.webhook.id, verification);
+      }
+
+      let oldDeleted = true;
+      try {
+        const oldSecret = await webhooks!.getSecret(old.id);
+        await fathomClient.deleteWebhook({ webhook_id: old.id });
+        await webhooks!.remove(old.id);
+        // The old secret may have leaked; stop accepting deliveries signed with it
+        if (oldSecret) {
+          webhookReceiver?.removeSecret(oldSecret);
+        }
+      } catch (error) {
+        oldDeleted = false;
+        log.warn(`Could not delete old webhook ${old.id}`, { tool: 'rotate_webhook', error });
+      }
+      log.info(`Rotated webhook ${old.id} -> ${created.webhook.id}`, { tool: 'rotate_webhook' });
+
+      return jsonResult({
+        webhook: created.webhook,
+        secret: created.secret,
+        replaced: old.id,
+        old_webhook_deleted: oldDeleted,
+        verification,
+        note: oldDeleted
+          ? "Receivers outside this server need the new secret; deliveries signed with the old one have stopped."
+          : `The old webhook could not be deleted; retry with delete_webhook ${old.id}.`
+      });
+    }
+  }),
+
+  defineTool({
+    name: "test_webhook",
+    description: "Send a signed sample meeting payload to a webhook created through this server, exactly as Fathom would, and report whether it was accepted.",
+    schema: TestWebhookSchema,
+    scope: WEBHOOKS_SCOPE,
+    redact: false,
+    isAvailable: context => !!context.webhooks,
+    handler: async (params, { webhooks }) => {
+      // Only registered receivers, so the tool can't be pointed at arbitrary URLs
+      const registered = await webhooks!.get(params.webhook_id);
+      const secret = registered && await webhooks!.getSecret(registered.id);
+      if (!registered || !secret) {
+        throw new Error(`Webhook ${params.webhook_id} is not in the local registry`);
+      }
+
+      log.info(`Sending test delivery to ${registered.url}`, { tool: 'test_webhook' });
+      const result = await deliverTestWebhook(registered.url, secret);
+      await webhooks!.recordTest(registered.id, result);
+      log.info(`${result.ok ? 'Accepted' : 'Rejected'} (${result.status ?? 'no response'}) in ${result.duration_ms}ms`, { tool: 'test_webhook' });
+
+      return jsonResult({ webhook_id: registered.id, ...result });
+    }
+  }),
+
+  defineTool({
+    name: "reveal_redacted",
+    description: "Replace redaction tokens (such as [EMAIL_3f9a1c2b7d]) in text with the original values. Only for callers authorised to see personal data.",
+    schema: RevealRedactedSchema,
+    scope: PII_SCOPE,
+    redact: false,
+    isAvailable: context => !!context.redactor?.reversible,
+    handler: async (params, { redactor }) => {
+      const result = await redactor!.reveal(params.text);
+      log.info(`Revealed ${result.revealed.length} tokens, ${result.unknown.length} unknown`, { tool: 'reveal_redacted' });
+      return jsonResult(result);
+    }
+  }),
+
+  defineTool({
+    name: "sync_meetings",
+    description: "Pull meetings created since the last sync from Fathom into the local store. list_meetings and search_meetings sync automatically, so this is only needed to refresh immediately.",
+    schema: SyncMeetingsSchema,
+    handler: async (params, { fathomClient }) => {
+      log.info(`Syncing meetings (force=${params.force})`, { tool: 'sync_meetings' });
+      const result = await fathomClient.syncMeetings({
+        force: params.force,
+        includeTranscripts: params.include_transcripts
+      });
+      log.info(`Synced ${result.fetched} meetings, ${result.total} stored`, { tool: 'sync_meetings' });
+
+      return jsonResult(result);
+    }
+  }),
+
+  defineTool({
+    name: "list_received_meetings",
+    description: "List meetings delivered to this server by Fathom webhooks since it started, most recent first. Use this to find meetings that have just finished processing.",
+    schema: ListReceivedMeetingsSchema,
+    isAvailable: context => !!context.webhookReceiver,
+    handler: async (params, context) => {
+      const received = await visibleMeetings(context, context.webhookReceiver!.listMeetings());
+      const meetings = received.slice(0, params.limit);
+      log.debug(`Returning ${meetings.length}/${received.length} received meetings`, { tool: 'list_received_meetings' });
+
+      return jsonResult({
+        total_received: received.length,
+        showing: meetings.length,
+        meetings: meetings.map(meeting => ({
+          ...formatMeeting(meeting),
+          has_transcript: !!meeting.transcript
+        }))
+      });
+    }
+  }),
+
+  defineTool({
+    name: "meeting_analytics",
+    description: "Analyze meetings in a date range, team or attendee domain: meeting counts and hours per recorder, internal vs external split, average meeting length, most frequent attendees, and per-speaker talk time and share from transcripts.",
+    schema: MeetingAnalyticsSchema,
+    handler: async (params, context) => {
+      const { fathomClient, meetingStore, webhookReceiver } = context;
+      log.debug('Analyzing meetings', { tool: 'meeting_analytics', params });
+      const response = await fathomClient.collectMeetings({
+        created_after: params.created_after,
+        created_before: params.created_before,
+        teams: params.team ? [params.team] : undefined,
+        calendar_invitees_domains: params.attendee_domain ? [params.attendee_domain] : undefined
+      }, { limit: params.max_meetings });
+      const meetings = await visibleMeetings(context, response.items);
+
+      // Talk time needs transcripts: use stored ones freely, fetch a limited number of the rest
+      const transcripts = new Map<string, FathomTranscriptSegment[]>();
+      let fetchesLeft = params.max_transcript_fetches;
+      let transcriptsPending = 0;
+      for (const meeting of params.include_talk_time ? meetings : []) {
+        if (!meeting.recording_id) continue;
+        const recordingId = String(meeting.recording_id);
+        let segments = webhookReceiver?.getTranscript(recordingId) ?? (await meetingStore?.getTranscript(recordingId))?.segments;
+        if (!segments) {
+          if (fetchesLeft <= 0) {
+            transcriptsPending++;
+            continue;
+          }
+          fetchesLeft--;
+          segments = await fathomClient.getMeetingTranscriptSegments(recordingId);
+        }
+        if (segments.length > 0) {
+          transcripts.set(recordingId, segments);
+        }
+      }
+      log.debug(`Analyzed ${meetings.length} meetings and ${transcripts.size} transcripts`, { tool: 'meeting_analytics' });
+
+      return jsonResult({
+        filters: {
+          created_after: params.created_after,
+          created_before: params.created_before,
+          team: params.team,
+          attendee_domain: params.attendee_domain
+        },
+        truncated: !!response.next_cursor,
+        transcripts_pending: transcriptsPending,
+        ...computeMeetingAnalytics(meetings, transcripts)
+      });
+    }
+  }),
+
+  defineTool({
+    name: "list_action_items",
+    description: "List action items tracked across all synced meetings, with owner (matched to attendees and team members), due date, source meeting and open/done status. Sorted by due date.",
+    schema: ListActionItemsSchema,
+    isAvailable: context => !!context.actionItems,
+    handler: async (params, context) => {
+      const { limit, ...filters } = params;
+      const tracker = await syncActionItems(context);
+      const items = await visibleActionItems(context, await tracker.list(filters));
+      log.debug(`Found ${items.length} action items`, { tool: 'list_action_items' });
+
+      return jsonResult({
+        total_found: items.length,
+        showing: Math.min(items.length, limit),
+        action_items: items.slice(0, limit).map(formatActionItem)
+      });
+    }
+  }),
+
+  defineTool({
+    name: "update_action_item",
+    description: "Update a tracked action item: mark it done or open, reassign it, set a due date or add notes.",
+    schema: UpdateActionItemSchema,
+    isAvailable: context => !!context.actionItems,
+    handler: async (params, context) => {
+      const { id, ...changes } = params;
+      if (context.access) {
+        const existing = (await context.actionItems!.list({ status: 'all' })).filter(item => item.id === id);
+        if ((await visibleActionItems(context, existing)).length === 0) {
+          throw new Error(`Action item not found: ${id}`);
+        }
+      }
+      log.info(`Updating ${id}`, { tool: 'update_action_item', params: changes });
+      const item = await context.actionItems!.update(id, changes);
+
+      return jsonResult({
+        success: true,
+        action_item: formatActionItem(item)
+      });
+    }
+  }),
+
+  defineTool({
+    name: "action_items_by_person",
+    description: "Group tracked action items by owner, with counts of open and overdue items per person. Items with no identifiable owner are listed under 'unassigned'.",
+    schema: ActionItemsByPersonSchema,
+    isAvailable: context => !!context.actionItems,
+    handler: async (params, context) => {
+      const tracker = await syncActionItems(context);
+      const items = await visibleActionItems(context, await tracker.list(params));
+      const today = new Date().toISOString().slice(0, 10);
+
+      const people = new Map<string, ActionItem[]>();
+      for (const item of items) {
+        const key = item.owner_email?.toLowerCase() || 'unassigned';
+        people.set(key, [...(people.get(key) ?? []), item]);
+      }
+      log.debug(`Grouped ${items.length} action items across ${people.size} owners`, { tool: 'action_items_by_person' });
+
+      return jsonResult({
+        total_items: items.length,
+        people: [...people.entries()]
+          .map(([owner, ownerItems]) => ({
+            owner,
+            name: ownerItems.find(item => item.owner_name)?.owner_name,
+            open: ownerItems.filter(item => item.status === 'open').length,
+            overdue: ownerItems.filter(item => item.status === 'open' && item.due_date && item.due_date < today).length,
+            action_items: ownerItems.map(formatActionItem)
+          }))
+          .sort((a, b) => b.action_items.length - a.action_items.length)
+      });
+    }
+  }),
+
+  defineTool({
+    name: "export_meetings",
+    description: "Export meetings as Markdown notes with frontmatter, JSON Lines, a CSV summary, or SRT/WebVTT captions generated from transcript timestamps. Select meetings by recording ID or by date range, attendee domain and type.",
+    schema: ExportMeetingsSchema,
+    handler: async (params, context) => {
+      const { fathomClient, meetingStore, webhookReceiver } = context;
+      log.debug('Exporting', { tool: 'export_meetings', params });
+      const outputDir = exportDirectory(meetingStore?.directory);
+      if (params.destination === 'files' && !outputDir) {
+        throw new Error("Writing export files needs FATHOM_EXPORT_DIR or the local meeting store; use destination 'inline' instead");
+      }
+
+      let meetings: FathomMeeting[];
+      if (params.recording_ids?.length) {
+        const requested = params.recording_ids.slice(0, params.limit);
+        const found = await Promise.all(requested.map(async id => {
+          const meeting = await fathomClient.getMeeting(id);
+          return meeting && (!context.access || await context.access.allows(meeting)) ? meeting : undefined;
+        }));
+        const missing = requested.filter((id, index) => !found[index]);
+        if (missing.length > 0) {
+          throw new Error(`Meetings not found: ${missing.join(', ')}`);
+        }
+        meetings = found as FathomMeeting[];
+      } else {
+        const response = await fathomClient.collectMeetings({
+          created_after: params.created_after,
+          created_before: params.created_before,
+          meeting_type: params.meeting_type,
+          calendar_invitees_domains: params.attendee_domain ? [params.attendee_domain] : undefined
+        }, { limit: params.limit });
+        meetings = await visibleMeetings(context, response.items);
+      }
+
+      const needsTranscripts = params.format === 'srt' || params.format === 'vtt' ||
+        (params.include_transcript && params.format !== 'csv');
+      const exported = [];
+      for (const meeting of meetings) {
+        const recordingId = meeting.recording_id ? String(meeting.recording_id) : undefined;
+        const segments = needsTranscripts && recordingId
+          ? webhookReceiver?.getTranscript(recordingId) ?? await fathomClient.getMeetingTranscriptSegments(recordingId)
+          : undefined;
+        exported.push({ meeting, segments });
+      }
+
+      const files = exportMeetings(exported, params.format);
+      log.debug(`Rendered ${files.length} ${params.format} files from ${meetings.length} meetings`, { tool: 'export_meetings' });
+
+      if (params.destination === 'files') {
+        // Only the tool result is redacted on the way out, so files are redacted before writing
+        const { redactor } = context;
+        const contents = redactor ? await redactor.redact(files.map(file => file.content)) : undefined;
+        const written = await writeExportFiles(outputDir!, contents ? files.map((file, index) => ({ ...file, content: contents[index] })) : files);
+        return jsonResult({ format: params.format, meetings: meetings.length, files: written });
+      }
+
+      const size = files.reduce((total, file) => total + Buffer.byteLength(file.content), 0);
+      if (size > MAX_INLINE_EXPORT_BYTES) {
+        throw new Error(`Export is ${Math.round(size / 1024)} KB, too large to return inline; lower limit, narrow the filters or use destination 'files'`);
+      }
+      return {
+        content: [
+          { type: "text", text: `Exported ${meetings.length} meetings as ${files.length} ${params.format} files` },
+          ...files.map(file => ({
+            type: "resource" as const,
+            resource: { uri: `fathom://exports/${file.filename}`, mimeType: file.mimeType, text: file.content }
+          }))
+        ]
+      };
+    }
+  }),
+
+  defineTool({
+    name: "account_timeline",
+    description: "Chronological history of meetings with one customer account, identified by company domain or CRM company/deal: who attended from each side, summaries, linked CRM records, and action items still outstanding.",
+    schema: AccountTimelineSchema,
+    handler: async (params, context) => {
+      if (!params.domain && !params.crm_account) {
+        throw new Error("Provide either domain or crm_account");
+      }
+      log.debug('Building timeline', { tool: 'account_timeline', params });
+
+      // A domain can be filtered by Fathom; a CRM account has to be matched on each meeting
+      const response = await context.fathomClient.collectMeetings({
+        created_after: params.created_after,
+        created_before: params.created_before,
+        calendar_invitees_domains: params.domain && !params.crm_account ? [params.domain] : undefined,
+        include_crm_matches: true
+      }, { limit: params.max_meetings });
+
+      const openItems = context.actionItems
+        ? await (await syncActionItems(context)).list({ status: 'open' })
+        : undefined;
+      const timeline = buildAccountTimeline(await visibleMeetings(context, response.items), params, openItems);
+      const recordingIds = new Set(timeline.timeline.map(entry => entry.recording_id));
+      log.debug(`Found ${timeline.meetings_found} meetings out of ${response.items.length} scanned`, { tool: 'account_timeline' });
+
+      return jsonResult({
+        ...timeline,
+        truncated: !!response.next_cursor,
+        outstanding_action_items: openItems
+          ? openItems.filter(item => recordingIds.has(item.recording_id)).map(formatActionItem)
+          : timeline.timeline.flatMap(entry => entry.action_items.map(text => ({ text, meeting: entry.title, date: entry.date })))
+      });
+    }
+  })
+];
+
+// Mount the registry on an MCP server: one tools/list entry and one tools/call route per tool.
+// Callers only see and can call the tools their access token has the scope for.
+export function registerTools(server: Server, context: ToolContext): void {
+  const available = tools.filter(tool => !tool.isAvailable || tool.isAvailable(context));
+
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => ({
+    tools: available.filter(tool => hasScope(extra.authInfo, tool.scope ?? READ_SCOPE, context.anonymousScopes)).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: zodToJsonSchema(tool.schema)
+    }))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
+    const { name, arguments: args } = request.params;
+
+    const tool = available.find(candidate => candidate.name === name);
+    const invoke = async (): Promise<CallToolResult> => {
+      try {
+        if (!tool) {
+          throw new Error(`Unknown tool: ${name}`);
+        }
+        const scope = tool.scope ?? READ_SCOPE;
+        if (!hasScope(extra.authInfo, scope, context.anonymousScopes)) {
+          throw new Error(`Insufficient scope: ${name} requires the ${scope} scope`);
+        }
+
+        const { redactor } = context;
+        if (!redactor || tool.redact === false) {
+          return await tool.handler(args ?? {}, context);
+        }
+        // Tokens the client got from earlier output work as arguments, e.g. an attendee's [EMAIL_…]
+        const result = await tool.handler(await redactor.detokenize(args ?? {}), context);
+        return await redactor.redact(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+        log.warn('Tool call failed', { tool: name, error: errorMessage });
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ error: errorMessage }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    };
+
+    // Unknown names are counted together, so a misbehaving client can't add metric series
+    const toolLabel = tool ? name : 'unknown';
+    const call = () => withSpan(`tools/call ${toolLabel}`, {
+      kind: SpanKind.SERVER,
+      attributes: { 'mcp.tool.name': toolLabel, 'mcp.session.id': extra.sessionId },
+      headers: extra.requestInfo?.headers
+    }, async span => {
+      const started = Date.now();
+      const result = await invoke();
+      if (result.isError) {
+        setSpanError(span, new Error('Tool returned an error'));
+      }
+      toolCallsTotal.inc({ tool: toolLabel, status: result.isError ? 'error' : 'ok' });
+      toolCallDuration.observe({ tool: toolLabel }, (Date.now() - started) / 1000);
+      return result;
+    });
+
+    if (!context.audit) {
+      return call();
+    }
+    return context.audit.track({
+      type: 'tool',
+      name,
+      arguments: args,
+      caller: auditCaller(extra.authInfo, extra.sessionId, context.accountId)
+    }, call);
+  });
+}
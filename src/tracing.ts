@@ -0,0 +1,138 @@
+import { Attributes, INVALID_SPAN_CONTEXT, Span, SpanKind, SpanStatusCode, context, isSpanContextValid, propagation, trace } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { NodeSDK } from '@opentelemetry/sdk-node';
+import { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { createLogger } from './logger.js';
+
+export { SpanKind };
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  // Headers of an incoming request whose traceparent becomes the span's remote parent
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+let sdk: NodeSDK | undefined;
+let started = false;
+
+// Tracing is on when an OTLP endpoint is configured, using the standard OpenTelemetry variables:
+//   OTEL_EXPORTER_OTLP_ENDPOINT          collector base URL, e.g. http://localhost:4318
+//   OTEL_EXPORTER_OTLP_TRACES_ENDPOINT   full traces URL, overriding the above
+//   OTEL_EXPORTER_OTLP_HEADERS           extra headers as key=value,key=value
+//   OTEL_SERVICE_NAME                    default mcp-fathom-server
+//   OTEL_TRACES_EXPORTER=none            turns tracing off
+// Metrics and logs have their own outputs (prom-client and the logger), so the SDK only exports spans.
+function startTracingFromEnv(): void {
+  const url = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  if (!url || process.env.OTEL_TRACES_EXPORTER === 'none') {
+    return;
+  }
+
+  const serviceName = process.env.OTEL_SERVICE_NAME || 'mcp-fathom-server';
+  sdk = new NodeSDK({
+    serviceName,
+    traceExporter: new OTLPTraceExporter(),
+    metricReaders: [],
+    logRecordProcessors: []
+  });
+  sdk.start();
+  createLogger('TRACING').info(`Exporting spans to ${url} as ${serviceName}`);
+}
+
+// Started on first use rather than at import, so values loaded by dotenv apply
+function tracingEnabled(): boolean {
+  if (!started) {
+    started = true;
+    startTracingFromEnv();
+  }
+  return !!sdk;
+}
+
+function tracer() {
+  return trace.getTracer('mcp-fathom-server');
+}
+
+// IDs of the active span, for log lines
+export function activeSpan(): { traceId: string; spanId: string } | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+export function setSpanError(span: Span, error: unknown): void {
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+}
+
+// Run fn inside a new span, which becomes the parent of spans started within it
+export async function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  if (!tracingEnabled()) {
+    return fn(trace.wrapSpanContext(INVALID_SPAN_CONTEXT));
+  }
+  const parent = options.headers ? propagation.extract(context.active(), options.headers) : context.active();
+  return tracer().startActiveSpan(name, { kind: options.kind ?? SpanKind.INTERNAL, attributes: options.attributes }, parent, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      setSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Export spans still waiting in the batch before the process exits
+export async function shutdownTracing(): Promise<void> {
+  try {
+    await sdk?.shutdown();
+  } catch (error) {
+    createLogger('TRACING').warn('Could not export the remaining spans', { error });
+  }
+  sdk = undefined;
+}
+
+type TracedRequestConfig = InternalAxiosRequestConfig & { span?: Span };
+
+// A client span per request made with this instance, with a traceparent header so the
+// receiving service can continue the trace
+export function instrumentAxios(instance: AxiosInstance, peer: string): AxiosInstance {
+  instance.interceptors.request.use((config: TracedRequestConfig) => {
+    if (!tracingEnabled()) {
+      return config;
+    }
+    const method = (config.method ?? 'get').toUpperCase();
+    const url = new URL(instance.getUri(config));
+    config.span = tracer().startSpan(`${method} ${peer}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'http.request.method': method,
+        'server.address': url.hostname,
+        'url.path': url.pathname
+      }
+    });
+    const carrier: Record<string, string> = {};
+    propagation.inject(trace.setSpan(context.active(), config.span), carrier);
+    for (const [name, value] of Object.entries(carrier)) {
+      config.headers.set(name, value);
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(response => {
+    const span = (response.config as TracedRequestConfig).span;
+    span?.setAttribute('http.response.status_code', response.status);
+    span?.end();
+    return response;
+  }, error => {
+    const span = (error?.config as TracedRequestConfig | undefined)?.span;
+    if (span) {
+      if (error?.response?.status !== undefined) {
+        span.setAttribute('http.response.status_code', error.response.status);
+      }
+      setSpanError(span, error);
+      span.end();
+    }
+    return Promise.reject(error);
+  });
+  return instance;
+}
@@ -0,0 +1,82 @@
+import { FathomTranscriptSegment } from './types.js';
+
+export interface TranscriptFilter {
+  speaker?: string;
+  start_time?: string;
+  end_time?: string;
+}
+
+// Normalize Fathom's raw { speaker, text, timestamp } segments, tolerating missing fields
+export function normalizeTranscriptSegments(raw: any[]): FathomTranscriptSegment[] {
+  return raw.map((segment: any) => ({
+    speaker: {
+      display_name: segment?.speaker?.display_name || 'Unknown Speaker',
+      matched_calendar_invitee_email: segment?.speaker?.matched_calendar_invitee_email || undefined
+    },
+    text: segment?.text || '',
+    timestamp: segment?.timestamp || ''
+  }));
+}
+
+// Convert transcript segments to plain "[time] speaker: text" lines
+export function formatTranscript(segments: FathomTranscriptSegment[]): string {
+  return segments
+    .map(segment => `[${segment.timestamp}] ${segment.speaker.display_name}: ${segment.text}`)
+    .join('\n');
+}
+
+// Reads back text produced by formatTranscript, for plain-string transcripts and older store files
+export function parseTranscript(transcript: string): FathomTranscriptSegment[] {
+  return transcript
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const match = line.match(/^\[([^\]]*)\]\s*([^:]*):\s?(.*)$/);
+      return match
+        ? { speaker: { display_name: match[2] || 'Unknown Speaker' }, text: match[3], timestamp: match[1] }
+        : { speaker: { display_name: 'Unknown Speaker' }, text: line, timestamp: '' };
+    });
+}
+
+// "HH:MM:SS", "MM:SS" or plain seconds; undefined when the value isn't a timestamp
+export function timestampToSeconds(timestamp: string): number | undefined {
+  if (!timestamp || !/^\d+(:\d+){0,2}(\.\d+)?$/.test(timestamp.trim())) {
+    return undefined;
+  }
+  return timestamp
+    .trim()
+    .split(':')
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function filterTranscriptSegments(
+  segments: FathomTranscriptSegment[],
+  filter: TranscriptFilter
+): FathomTranscriptSegment[] {
+  const speaker = filter.speaker?.toLowerCase();
+  const start = filter.start_time !== undefined ? parseBound(filter.start_time, 'start_time') : undefined;
+  const end = filter.end_time !== undefined ? parseBound(filter.end_time, 'end_time') : undefined;
+
+  return segments.filter(segment => {
+    if (speaker &&
+        !segment.speaker.display_name.toLowerCase().includes(speaker) &&
+        segment.speaker.matched_calendar_invitee_email?.toLowerCase() !== speaker) {
+      return false;
+    }
+    if (start !== undefined || end !== undefined) {
+      const seconds = timestampToSeconds(segment.timestamp);
+      if (seconds === undefined) return false;
+      if (start !== undefined && seconds < start) return false;
+      if (end !== undefined && seconds > end) return false;
+    }
+    return true;
+  });
+}
+
+function parseBound(value: string, name: string): number {
+  const seconds = timestampToSeconds(value);
+  if (seconds === undefined) {
+    throw new Error(`Invalid ${name} "${value}". Use HH:MM:SS, MM:SS or a number of seconds.`);
+  }
+  return seconds;
+}
@@ -14,11 +14,52 @@ export interface FathomMeeting {
   recorded_by: string;
   transcript?: string;
   default_summary?: string;
-  action_items?: string[];
-  crm_matches?: any[];
+  action_items?: FathomActionItem[];
+  crm_matches?: FathomCrmMatches | null;
   recording_id?: string;
 }
 
+// Fathom sends action items either as plain strings or as objects with a description,
+// an assignee and a completed flag
+export type FathomActionItem = string | FathomActionItemDetails;
+
+export interface FathomActionItemDetails {
+  description: string;
+  user_generated?: boolean;
+  completed?: boolean;
+  assignee?: { name?: string; email?: string } | null;
+}
+
+// The text of an action item in either shape
+export function actionItemText(item: FathomActionItem): string {
+  return (typeof item === 'string' ? item : item?.description ?? '').trim();
+}
+
+// CRM records Fathom linked to a meeting's attendees (returned with include_crm_matches)
+export interface FathomCrmContact {
+  name: string;
+  email: string;
+  record_url?: string;
+}
+
+export interface FathomCrmCompany {
+  name: string;
+  record_url?: string;
+}
+
+export interface FathomCrmDeal {
+  name: string;
+  amount?: number;
+  record_url?: string;
+}
+
+export interface FathomCrmMatches {
+  contacts?: FathomCrmContact[];
+  companies?: FathomCrmCompany[];
+  deals?: FathomCrmDeal[];
+  error?: string | null;
+}
+
 export interface FathomListMeetingsParams {
   calendar_invitees?: string[];
   calendar_invitees_domains?: string[];
@@ -45,6 +86,10 @@ export interface FathomTeam {
   member_count?: number;
 }
 
+export interface FathomListTeamsParams {
+  cursor?: string;
+}
+
 export interface FathomListTeamsResponse {
   items: FathomTeam[];
   next_cursor?: string;
@@ -68,6 +113,12 @@ export interface FathomListTeamMembersResponse {
   next_cursor?: string;
 }
 
+// Segments of { speaker, text, timestamp }, which transcript.ts normalizes; older recordings
+// may return the transcript as plain text, or the whole body as a string
+export interface FathomTranscriptResponse {
+  transcript?: unknown[] | string;
+}
+
 export interface FathomWebhook {
   id: string;
   url: string;
@@ -91,4 +142,30 @@ export interface FathomCreateWebhookResponse {
 
 export interface FathomDeleteWebhookParams {
   webhook_id: string;
-}
\ No newline at end of file
+}
+
+export interface FathomTranscriptSpeaker {
+  display_name: string;
+  matched_calendar_invitee_email?: string;
+}
+
+export interface FathomTranscriptSegment {
+  speaker: FathomTranscriptSpeaker;
+  text: string;
+  timestamp: string;
+}
+
+export interface FathomPageOptions {
+  // Resume from a next_cursor returned by an earlier call
+  cursor?: string;
+  // Stop once this many items have been collected
+  limit?: number;
+  // Stop after reading this many pages
+  maxPages?: number;
+}
+
+export interface FathomCollectedPages<T> {
+  items: T[];
+  next_cursor?: string;
+  pages_fetched: number;
+}
@@ -0,0 +1,251 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { AtomicFileWriter } from './atomic-file-writer.js';
+import { EmbeddingProvider, cosineSimilarity, createEmbeddingProviderFromEnv } from './embeddings.js';
+import { createLogger } from './logger.js';
+import { MeetingStore } from './meeting-store.js';
+import { SearchField, SearchHit, SearchResult } from './search-index.js';
+import { FathomMeeting, FathomTranscriptSegment, actionItemText } from './types.js';
+
+const log = createLogger('VECTORS');
+
+export interface TranscriptChunk {
+  field: Exclude<SearchField, 'title'>;
+  text: string;
+  speaker?: string;
+  timestamp?: string;
+}
+
+interface IndexedChunk extends TranscriptChunk {
+  vector: Float32Array;
+}
+
+interface IndexedMeeting {
+  hasTranscript: boolean;
+  chunks: IndexedChunk[];
+}
+
+// On-disk form of one meeting's vectors; Float32 values are base64-encoded to keep files small
+interface VectorFile {
+  key: string;
+  provider: string;
+  has_transcript: boolean;
+  chunks: (TranscriptChunk & { vector: string })[];
+}
+
+export interface VectorMatch {
+  key: string;
+  similarity: number;
+  chunk: TranscriptChunk;
+}
+
+// A speaker turn longer than this is split at segment boundaries; shorter fragments
+// ("yeah", "sounds good") carry too little meaning to be worth a vector
+const MAX_CHUNK_WORDS = 150;
+const MIN_CHUNK_WORDS = 4;
+// Chunks below this similarity to the query are not treated as matches
+const MIN_SIMILARITY = 0.2;
+const MAX_HITS_PER_MEETING = 3;
+const SNIPPET_LENGTH = 240;
+// Reciprocal rank fusion constant: higher values flatten the advantage of the top ranks
+const RRF_K = 60;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Split a meeting into embeddable chunks: the title with its summary, the action items,
+// and each speaker turn of the transcript (consecutive segments by the same speaker)
+export function chunkMeeting(meeting: FathomMeeting, segments?: FathomTranscriptSegment[]): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  const title = meeting.title || meeting.meeting_title;
+  if (title || meeting.default_summary) {
+    chunks.push({ field: 'summary', text: [title, meeting.default_summary].filter(Boolean).join('\n\n') });
+  }
+  const actionItems = (meeting.action_items || []).map(actionItemText).filter(Boolean);
+  if (actionItems.length > 0) {
+    chunks.push({ field: 'action_item', text: actionItems.join('\n') });
+  }
+
+  let turn: { speaker: string; timestamp?: string; texts: string[]; words: number } | undefined;
+  const flush = () => {
+    if (turn && turn.words >= MIN_CHUNK_WORDS) {
+      chunks.push({ field: 'transcript', text: turn.texts.join(' '), speaker: turn.speaker, timestamp: turn.timestamp });
+    }
+    turn = undefined;
+  };
+
+  for (const segment of segments || []) {
+    const words = wordCount(segment.text);
+    if (words === 0) continue;
+    const speaker = segment.speaker.display_name;
+    if (turn && (turn.speaker !== speaker || turn.words + words > MAX_CHUNK_WORDS)) {
+      flush();
+    }
+    turn ??= { speaker, timestamp: segment.timestamp || undefined, texts: [], words: 0 };
+    turn.texts.push(segment.text.trim());
+    turn.words += words;
+  }
+  flush();
+
+  return chunks;
+}
+
+// Semantic search is on unless FATHOM_EMBEDDINGS_PROVIDER=none; vectors live next to the
+// meeting store, or in memory when the store is disabled
+export function createVectorIndexFromEnv(meetingStore?: MeetingStore): VectorIndex | undefined {
+  const provider = createEmbeddingProviderFromEnv();
+  return provider ? new VectorIndex(provider, meetingStore?.directory) : undefined;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  // Copy out of Node's shared buffer pool, whose offsets aren't 4-byte aligned
+  const bytes = Uint8Array.from(Buffer.from(encoded, 'base64'));
+  return new Float32Array(bytes.buffer);
+}
+
+// Chunk embeddings for semantic search, persisted as <dataDir>/vectors/<provider id>/<meeting key>.json
+// so each chunk is only embedded once. Without a data directory the index lives in memory.
+export class VectorIndex {
+  private meetings = new Map<string, IndexedMeeting>();
+  private loaded?: Promise<void>;
+  private writer = new AtomicFileWriter();
+  private directory?: string;
+
+  constructor(private provider: EmbeddingProvider, dataDir?: string) {
+    this.directory = dataDir ? path.join(dataDir, 'vectors', provider.id) : undefined;
+  }
+
+  get providerId(): string {
+    return this.provider.id;
+  }
+
+  get isLocal(): boolean {
+    return this.provider.local;
+  }
+
+  async hasMeeting(key: string, withTranscript: boolean = false): Promise<boolean> {
+    await this.load();
+    const indexed = this.meetings.get(key);
+    return !!indexed && (!withTranscript || indexed.hasTranscript);
+  }
+
+  async indexMeeting(key: string, meeting: FathomMeeting, segments?: FathomTranscriptSegment[]): Promise<void> {
+    await this.load();
+    const chunks = chunkMeeting(meeting, segments);
+    const vectors = chunks.length > 0 ? await this.provider.embed(chunks.map(chunk => chunk.text)) : [];
+    const indexed: IndexedMeeting = {
+      hasTranscript: !!segments?.length,
+      chunks: chunks.map((chunk, index) => ({ ...chunk, vector: Float32Array.from(vectors[index]) }))
+    };
+    this.meetings.set(key, indexed);
+
+    if (this.directory) {
+      const file: VectorFile = {
+        key,
+        provider: this.provider.id,
+        has_transcript: indexed.hasTranscript,
+        chunks: indexed.chunks.map(({ vector, ...chunk }) => ({ ...chunk, vector: encodeVector(vector) }))
+      };
+      await this.writer.write(path.join(this.directory, `${encodeURIComponent(key)}.json`), JSON.stringify(file));
+    }
+  }
+
+  // Best-matching chunks per meeting, ranked by their top chunk's similarity
+  async search(query: string, options: { keys?: Set<string>; speaker?: string; limit?: number } = {}): Promise<Map<string, VectorMatch[]>> {
+    await this.load();
+    const [queryVector] = await this.provider.embed([query]);
+    const speaker = options.speaker?.toLowerCase();
+
+    const ranked: [string, VectorMatch[]][] = [];
+    for (const [key, indexed] of this.meetings) {
+      if (options.keys && !options.keys.has(key)) continue;
+      const matches = indexed.chunks
+        .filter(chunk => !speaker || (chunk.field === 'transcript' && !!chunk.speaker?.toLowerCase().includes(speaker)))
+        .map(({ vector, ...chunk }) => ({ key, similarity: cosineSimilarity(queryVector, vector), chunk }))
+        .filter(match => match.similarity >= MIN_SIMILARITY)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, MAX_HITS_PER_MEETING);
+      if (matches.length > 0) {
+        ranked.push([key, matches]);
+      }
+    }
+
+    ranked.sort((a, b) => b[1][0].similarity - a[1][0].similarity);
+    return new Map(ranked.slice(0, options.limit ?? 20));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (!this.directory) return;
+        await fs.mkdir(this.directory, { recursive: true });
+        for (const name of await fs.readdir(this.directory)) {
+          if (!name.endsWith('.json')) continue;
+          try {
+            const file = JSON.parse(await fs.readFile(path.join(this.directory, name), 'utf8')) as VectorFile;
+            this.meetings.set(file.key, {
+              hasTranscript: file.has_transcript,
+              chunks: file.chunks.map(({ vector, ...chunk }) => ({ ...chunk, vector: decodeVector(vector) }))
+            });
+          } catch (error) {
+            // The meeting is simply embedded again on its next search
+            log.warn(`Skipping unreadable vector file ${name}`, { error });
+          }
+        }
+        log.info(`Loaded ${this.meetings.size} meetings embedded with ${this.provider.id}`);
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+export function vectorHit(match: VectorMatch): SearchHit {
+  const text = match.chunk.text;
+  return {
+    field: match.chunk.field,
+    snippet: text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text,
+    speaker: match.chunk.speaker,
+    timestamp: match.chunk.timestamp,
+    similarity: Math.round(match.similarity * 1000) / 1000
+  };
+}
+
+// Merge keyword and vector rankings with reciprocal rank fusion, so a meeting ranked well by
+// either method surfaces and one ranked well by both comes first. Scores from the two
+// methods aren't on comparable scales, which is why only the ranks are used.
+export function fuseRankings(
+  keyword: SearchResult[],
+  semantic: Map<string, VectorMatch[]>,
+  meetings: Map<string, FathomMeeting>,
+  keyOf: (meeting: FathomMeeting) => string | undefined,
+  limit: number = 20
+): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+  const add = (key: string, rank: number, meeting: FathomMeeting, hits: SearchHit[]) => {
+    const entry = fused.get(key) ?? { meeting, score: 0, hits: [] };
+    entry.score += 1 / (RRF_K + rank + 1);
+    entry.hits.push(...hits);
+    fused.set(key, entry);
+  };
+
+  keyword.forEach((result, rank) => {
+    const key = keyOf(result.meeting);
+    if (key) add(key, rank, result.meeting, result.hits);
+  });
+  [...semantic.entries()].forEach(([key, matches], rank) => {
+    const meeting = fused.get(key)?.meeting ?? meetings.get(key);
+    if (meeting) add(key, rank, meeting, matches.map(vectorHit));
+  });
+
+  return [...fused.values()]
+    .map(result => ({
+      ...result,
+      score: Math.round(result.score * 10000) / 10000,
+      hits: result.hits.slice(0, MAX_HITS_PER_MEETING * 2)
+    }))
+    .sort((a, b) => b.score - a.score || b.meeting.created_at.localeCompare(a.meeting.created_at))
+    .slice(0, limit);
+}
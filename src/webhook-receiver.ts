@@ -0,0 +1,297 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createLogger } from './logger.js';
+import { formatTranscript, normalizeTranscriptSegments, parseTranscript } from './transcript.js';
+import { FathomActionItem, FathomMeeting, FathomTranscriptSegment } from './types.js';
+
+const log = createLogger('WEBHOOK');
+
+// Fathom signs deliveries using the Standard Webhooks scheme:
+// base64(HMAC-SHA256(secret, `${webhook-id}.${webhook-timestamp}.${body}`))
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+// Set on sample deliveries from test_webhook; they are verified like any other but not kept
+export const TEST_DELIVERY_HEADER = 'x-fathom-mcp-test';
+
+function secretKey(secret: string): Buffer {
+  return secret.startsWith('whsec_')
+    ? Buffer.from(secret.slice('whsec_'.length), 'base64')
+    : Buffer.from(secret, 'utf8');
+}
+
+// The "v1,<base64>" value of a webhook-signature header, as Fathom would send it
+export function signWebhook(secret: string, messageId: string, timestamp: number | string, body: string): string {
+  return `v1,${createHmac('sha256', secretKey(secret)).update(`${messageId}.${timestamp}.${body}`).digest('base64')}`;
+}
+
+// A delivery shaped like Fathom's meeting payload, for exercising receivers
+export function sampleWebhookPayload(): Record<string, unknown> {
+  const start = new Date(Date.now() - 30 * 60 * 1000);
+  const end = new Date();
+  return {
+    title: 'Sample meeting from test_webhook',
+    meeting_title: 'Sample meeting from test_webhook',
+    recording_id: `test-${start.getTime()}`,
+    url: 'https://fathom.video/calls/test',
+    share_url: 'https://fathom.video/share/test',
+    created_at: end.toISOString(),
+    scheduled_start_time: start.toISOString(),
+    scheduled_end_time: end.toISOString(),
+    recording_start_time: start.toISOString(),
+    recording_end_time: end.toISOString(),
+    calendar_invitees_domains_type: 'one_or_more_external',
+    transcript_language: 'en',
+    calendar_invitees: [
+      { name: 'Alex Example', email: 'alex@example.com', is_external: false },
+      { name: 'Sam Customer', email: 'sam@customer.example', is_external: true }
+    ],
+    recorded_by: { name: 'Alex Example', email: 'alex@example.com' },
+    transcript: [
+      { speaker: { display_name: 'Alex Example', matched_calendar_invitee_email: 'alex@example.com' }, text: 'Thanks for joining, this is a test delivery.', timestamp: '00:00:01' },
+      { speaker: { display_name: 'Sam Customer', matched_calendar_invitee_email: 'sam@customer.example' }, text: 'Happy to help check the webhook receiver.', timestamp: '00:00:05' }
+    ],
+    default_summary: { template_name: 'general', markdown_formatted: '## Summary\nA sample meeting sent by test_webhook.' },
+    action_items: [
+      { description: 'Alex to confirm the webhook receiver works', user_generated: false, completed: false }
+    ]
+  };
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface WebhookReceiverOptions {
+  secrets?: string[];
+  toleranceSeconds?: number;
+}
+
+type HeaderValue = string | string[] | undefined;
+
+export class WebhookReceiver {
+  private secrets = new Set<string>();
+  private seenMessageIds = new Map<string, number>();
+  private meetings = new Map<string, FathomMeeting>();
+  private transcripts = new Map<string, FathomTranscriptSegment[]>();
+  private receivedListeners = new Set<(meeting: FathomMeeting, isNew: boolean) => void>();
+  private toleranceSeconds: number;
+
+  constructor(options: WebhookReceiverOptions = {}) {
+    this.toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+    options.secrets?.forEach(secret => this.addSecret(secret));
+  }
+
+  addSecret(secret: string): void {
+    if (secret) {
+      this.secrets.add(secret.trim());
+    }
+  }
+
+  removeSecret(secret: string): void {
+    this.secrets.delete(secret.trim());
+  }
+
+  hasSecrets(): boolean {
+    return this.secrets.size > 0;
+  }
+
+  // Verify a delivery, parse its payload and keep the meeting for the MCP tools
+  receive(headers: Record<string, HeaderValue>, rawBody: Buffer | string): FathomMeeting {
+    const body = typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8');
+    const messageId = this.header(headers, 'webhook-id');
+    const timestamp = this.header(headers, 'webhook-timestamp');
+    const signatureHeader = this.header(headers, 'webhook-signature');
+
+    if (!messageId || !timestamp || !signatureHeader) {
+      throw new WebhookVerificationError('Missing webhook-id, webhook-timestamp or webhook-signature header', 400);
+    }
+
+    if (!this.hasSecrets()) {
+      throw new WebhookVerificationError('No webhook secret configured', 503);
+    }
+
+    const timestampSeconds = Number(timestamp);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (!Number.isFinite(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > this.toleranceSeconds) {
+      throw new WebhookVerificationError('Webhook timestamp is outside the allowed tolerance');
+    }
+
+    if (!this.verifySignature(`${messageId}.${timestamp}.${body}`, signatureHeader)) {
+      throw new WebhookVerificationError('Invalid webhook signature');
+    }
+
+    this.pruneSeenMessages(nowSeconds);
+    if (this.seenMessageIds.has(messageId)) {
+      throw new WebhookVerificationError(`Webhook ${messageId} has already been received`, 409);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new WebhookVerificationError('Webhook body is not valid JSON', 400);
+    }
+
+    const meeting = parseWebhookMeeting(payload);
+    // Only a delivery that parsed counts as received, so Fathom can retry one that didn't
+    this.seenMessageIds.set(messageId, timestampSeconds + this.toleranceSeconds);
+    if (isTestDelivery(headers)) {
+      log.info(`Verified test delivery ${messageId}`);
+      return meeting;
+    }
+    const isNew = !this.meetings.has(meeting.recording_id || messageId);
+    this.meetings.set(meeting.recording_id || messageId, meeting);
+    const segments = parseWebhookTranscript(payload);
+    if (meeting.recording_id && segments.length > 0) {
+      this.transcripts.set(meeting.recording_id, segments);
+    }
+    log.info(`Received meeting "${meeting.title}" (recording ${meeting.recording_id ?? 'unknown'})`);
+    this.receivedListeners.forEach(listener => listener(meeting, isNew));
+    return meeting;
+  }
+
+  // Called for each verified delivery other than tests; isNew is false for a redelivered recording.
+  // Returns a function that removes the listener.
+  onMeetingReceived(listener: (meeting: FathomMeeting, isNew: boolean) => void): () => void {
+    this.receivedListeners.add(listener);
+    return () => this.receivedListeners.delete(listener);
+  }
+
+  listMeetings(): FathomMeeting[] {
+    return [...this.meetings.values()].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  getMeeting(recordingId: string): FathomMeeting | undefined {
+    return this.meetings.get(recordingId);
+  }
+
+  getTranscript(recordingId: string): FathomTranscriptSegment[] | undefined {
+    return this.transcripts.get(recordingId);
+  }
+
+  private verifySignature(signedContent: string, signatureHeader: string): boolean {
+    // The header may carry several space-separated "v1,<base64>" signatures during secret rotation
+    const candidates = signatureHeader
+      .split(' ')
+      .map(part => part.split(','))
+      .filter(([version, signature]) => version === 'v1' && signature)
+      .map(([, signature]) => Buffer.from(signature, 'base64'));
+
+    for (const secret of this.secrets) {
+      const expected = createHmac('sha256', secretKey(secret)).update(signedContent).digest();
+      if (candidates.some(candidate => candidate.length === expected.length && timingSafeEqual(candidate, expected))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private pruneSeenMessages(nowSeconds: number): void {
+    for (const [messageId, expiresAt] of this.seenMessageIds) {
+      if (expiresAt < nowSeconds) {
+        this.seenMessageIds.delete(messageId);
+      }
+    }
+  }
+
+  private header(headers: Record<string, HeaderValue>, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
+
+export function isTestDelivery(headers: Record<string, HeaderValue>): boolean {
+  const value = headers[TEST_DELIVERY_HEADER];
+  return (Array.isArray(value) ? value[0] : value) === 'true';
+}
+
+// Webhook payloads use Fathom's richer object shapes (recorded_by, invitees, summary, action items)
+// so normalize them into the flat FathomMeeting model the tools already work with
+export function parseWebhookMeeting(payload: unknown): FathomMeeting {
+  if (!payload || typeof payload !== 'object') {
+    throw new WebhookVerificationError('Webhook payload is not a meeting object', 400);
+  }
+
+  const data = payload as Record<string, any>;
+  const title = data.title || data.meeting_title;
+  if (!title || !data.created_at) {
+    throw new WebhookVerificationError('Webhook payload is missing title or created_at', 400);
+  }
+
+  const invitees: any[] = Array.isArray(data.calendar_invitees) ? data.calendar_invitees : [];
+
+  return {
+    title,
+    meeting_title: data.meeting_title || title,
+    url: data.url || '',
+    share_url: data.share_url || '',
+    created_at: data.created_at,
+    scheduled_start_time: data.scheduled_start_time || undefined,
+    scheduled_end_time: data.scheduled_end_time || undefined,
+    recording_start_time: data.recording_start_time || undefined,
+    recording_end_time: data.recording_end_time || undefined,
+    meeting_type: parseMeetingType(data),
+    transcript_language: data.transcript_language || undefined,
+    calendar_invitees: invitees.map(invitee => typeof invitee === 'string' ? invitee : invitee?.email).filter(Boolean),
+    recorded_by: typeof data.recorded_by === 'string' ? data.recorded_by : data.recorded_by?.email || '',
+    transcript: data.transcript ? formatTranscript(parseWebhookTranscript(data)) || undefined : undefined,
+    default_summary: typeof data.default_summary === 'string'
+      ? data.default_summary
+      : data.default_summary?.markdown_formatted || undefined,
+    action_items: Array.isArray(data.action_items)
+      ? data.action_items.flatMap(parseWebhookActionItem)
+      : undefined,
+    crm_matches: data.crm_matches && typeof data.crm_matches === 'object' && !Array.isArray(data.crm_matches)
+      ? data.crm_matches
+      : undefined,
+    recording_id: data.recording_id !== undefined && data.recording_id !== null ? String(data.recording_id) : undefined
+  };
+}
+
+// Keeps the assignee and completion state of object items, which the action item tracker uses
+function parseWebhookActionItem(item: unknown): FathomActionItem[] {
+  if (typeof item === 'string') {
+    return item.trim() ? [item] : [];
+  }
+  if (!item || typeof item !== 'object') {
+    return [];
+  }
+  const { description, user_generated, completed, assignee } = item as Record<string, unknown>;
+  if (typeof description !== 'string' || !description.trim()) {
+    return [];
+  }
+  const person = assignee && typeof assignee === 'object' ? assignee as Record<string, unknown> : undefined;
+  return [{
+    description,
+    user_generated: typeof user_generated === 'boolean' ? user_generated : undefined,
+    completed: typeof completed === 'boolean' ? completed : undefined,
+    assignee: person ? {
+      name: typeof person.name === 'string' ? person.name : undefined,
+      email: typeof person.email === 'string' ? person.email : undefined
+    } : undefined
+  }];
+}
+
+export function parseWebhookTranscript(payload: unknown): FathomTranscriptSegment[] {
+  const transcript = (payload as Record<string, any> | null)?.transcript;
+  if (Array.isArray(transcript)) {
+    return normalizeTranscriptSegments(transcript);
+  }
+  return typeof transcript === 'string' ? parseTranscript(transcript) : [];
+}
+
+function parseMeetingType(data: Record<string, any>): FathomMeeting['meeting_type'] {
+  if (data.meeting_type === 'internal' || data.meeting_type === 'external') {
+    return data.meeting_type;
+  }
+  if (data.calendar_invitees_domains_type === 'only_internal') {
+    return 'internal';
+  }
+  if (data.calendar_invitees_domains_type === 'one_or_more_external') {
+    return 'external';
+  }
+  return 'all';
+}
@@ -0,0 +1,282 @@
+import axios from 'axios';
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scryptSync } from 'node:crypto';
+import { promises as dns } from 'node:dns';
+import { promises as fs } from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import { AtomicFileWriter } from './atomic-file-writer.js';
+import { createLogger } from './logger.js';
+import { MeetingStore } from './meeting-store.js';
+import { instrumentAxios } from './tracing.js';
+import { FathomWebhook } from './types.js';
+import { TEST_DELIVERY_HEADER, sampleWebhookPayload, signWebhook } from './webhook-receiver.js';
+
+const log = createLogger('WEBHOOKS');
+
+const testDeliveryClient = instrumentAxios(axios.create(), 'webhook_receiver');
+
+// Addresses a test delivery must not reach: the server's own network, cloud metadata
+// endpoints and the like. FATHOM_WEBHOOK_TEST_ALLOW_PRIVATE=true lifts this for local testing.
+const privateAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// BlockList checks IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 subnets
+function assertPublicAddress(hostname: string, address: string): void {
+  if (process.env.FATHOM_WEBHOOK_TEST_ALLOW_PRIVATE !== 'true' && privateAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')) {
+    throw new Error(`Refusing to send a test delivery to ${hostname}: ${address} is a private address`);
+  }
+}
+
+// Resolves names for the delivery itself, so the address checked is the one connected to
+async function publicLookup(hostname: string): Promise<{ address: string; family: 4 | 6 }> {
+  const addresses = await dns.lookup(hostname, { all: true });
+  addresses.forEach(({ address }) => assertPublicAddress(hostname, address));
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  return { address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+export interface WebhookTestResult {
+  tested_at: string;
+  url: string;
+  ok: boolean;
+  status?: number;
+  duration_ms: number;
+  error?: string;
+}
+
+// A webhook this server created, as listed by the tools; the secret is only returned on request
+export interface RegisteredWebhook extends FathomWebhook {
+  registered_at: string;
+  // Set on a webhook created by rotate_webhook, naming the one it replaced
+  rotated_from?: string;
+  last_test?: WebhookTestResult;
+}
+
+interface StoredWebhook extends RegisteredWebhook {
+  // AES-256-GCM: "v1.<iv>.<auth tag>.<ciphertext>", each base64
+  secret: string;
+}
+
+interface RegistryFile {
+  // Salt for deriving the key from FATHOM_WEBHOOK_ENCRYPTION_KEY
+  salt: string;
+  webhooks: Record<string, StoredWebhook>;
+}
+
+// POST a signed sample meeting to a receiver, the way Fathom delivers a real one. Only public
+// http(s) addresses are sent to, redirects aren't followed and the response body isn't kept.
+export async function deliverTestWebhook(url: string, secret: string): Promise<WebhookTestResult> {
+  const messageId = `msg_test_${randomUUID()}`;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const body = JSON.stringify(sampleWebhookPayload());
+  const started = Date.now();
+
+  try {
+    const target = new URL(url);
+    if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+      throw new Error(`Unsupported receiver URL scheme: ${target.protocol}`);
+    }
+    // Addresses in the URL itself are never looked up
+    const literal = target.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (net.isIP(literal)) {
+      assertPublicAddress(literal, literal);
+    }
+    const response = await testDeliveryClient.post(url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'webhook-id': messageId,
+        'webhook-timestamp': String(timestamp),
+        'webhook-signature': signWebhook(secret, messageId, timestamp, body),
+        [TEST_DELIVERY_HEADER]: 'true'
+      },
+      timeout: 15000,
+      maxRedirects: 0,
+      lookup: publicLookup,
+      responseType: 'stream',
+      validateStatus: () => true
+    });
+    response.data.destroy();
+    const ok = response.status >= 200 && response.status < 300;
+    return {
+      tested_at: new Date(started).toISOString(),
+      url,
+      ok,
+      status: response.status,
+      duration_ms: Date.now() - started,
+      error: ok ? undefined : `Receiver answered ${response.status}`
+    };
+  } catch (error) {
+    return {
+      tested_at: new Date(started).toISOString(),
+      url,
+      ok: false,
+      duration_ms: Date.now() - started,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// The registry lives next to the meeting store, so there is none when the store is disabled
+export function createWebhookRegistry(meetingStore?: MeetingStore): WebhookRegistry | undefined {
+  return meetingStore ? new WebhookRegistry(meetingStore.directory, process.env.FATHOM_WEBHOOK_ENCRYPTION_KEY) : undefined;
+}
+
+// Webhooks created through this server, kept in <dataDir>/webhooks.json with their signing
+// secrets encrypted. The key is derived from FATHOM_WEBHOOK_ENCRYPTION_KEY, or when that is
+// unset, from a random key generated into <dataDir>/webhook-secrets.key.
+export class WebhookRegistry {
+  private webhooks = new Map<string, StoredWebhook>();
+  private salt = '';
+  private key?: Promise<Buffer>;
+  private loaded?: Promise<void>;
+  // The registry holds secrets, so only the server's user may read it
+  private writer = new AtomicFileWriter({ mode: 0o600 });
+
+  constructor(private dataDir: string, private passphrase?: string) {}
+
+  async list(): Promise<RegisteredWebhook[]> {
+    await this.load();
+    return [...this.webhooks.values()]
+      .map(({ secret, ...webhook }) => webhook)
+      .sort((a, b) => b.registered_at.localeCompare(a.registered_at));
+  }
+
+  async get(id: string): Promise<RegisteredWebhook | undefined> {
+    await this.load();
+    const stored = this.webhooks.get(id);
+    if (!stored) return undefined;
+    const { secret, ...webhook } = stored;
+    return webhook;
+  }
+
+  async getSecret(id: string): Promise<string | undefined> {
+    await this.load();
+    const stored = this.webhooks.get(id);
+    return stored ? await this.decrypt(stored.secret) : undefined;
+  }
+
+  // Secrets of every registered webhook, for verifying deliveries after a restart. One that
+  // can't be decrypted is logged and skipped, so the other webhooks keep verifying.
+  async secrets(): Promise<string[]> {
+    await this.load();
+    const secrets: string[] = [];
+    for (const webhook of this.webhooks.values()) {
+      try {
+        secrets.push(await this.decrypt(webhook.secret));
+      } catch (error) {
+        log.error(`Skipping the secret of webhook ${webhook.id}`, { error });
+      }
+    }
+    return secrets;
+  }
+
+  async add(webhook: FathomWebhook, secret: string, rotatedFrom?: string): Promise<RegisteredWebhook> {
+    await this.load();
+    const stored: StoredWebhook = {
+      ...webhook,
+      registered_at: new Date().toISOString(),
+      rotated_from: rotatedFrom,
+      secret: await this.encrypt(secret)
+    };
+    this.webhooks.set(webhook.id, stored);
+    await this.persist();
+    const { secret: _, ...registered } = stored;
+    return registered;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+    const removed = this.webhooks.delete(id);
+    if (removed) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  async recordTest(id: string, result: WebhookTestResult): Promise<void> {
+    await this.load();
+    const stored = this.webhooks.get(id);
+    if (stored) {
+      stored.last_test = result;
+      await this.persist();
+    }
+  }
+
+  private async encrypt(secret: string): Promise<string> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64')).join('.');
+  }
+
+  private async decrypt(encrypted: string): Promise<string> {
+    const [version, iv, tag, ciphertext] = encrypted.split('.');
+    if (version !== 'v1' || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Unrecognised webhook secret format in webhooks.json');
+    }
+    const key = await this.encryptionKey();
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('Could not decrypt webhook secret; FATHOM_WEBHOOK_ENCRYPTION_KEY may have changed');
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.mkdir(this.dataDir, { recursive: true });
+        try {
+          const file = JSON.parse(await fs.readFile(path.join(this.dataDir, 'webhooks.json'), 'utf8')) as RegistryFile;
+          this.salt = file.salt;
+          this.webhooks = new Map(Object.entries(file.webhooks || {}));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+        }
+        this.salt ||= randomBytes(16).toString('base64');
+      })();
+    }
+    return this.loaded;
+  }
+
+  // Derived on first use, so listing an empty registry never creates a key file
+  private encryptionKey(): Promise<Buffer> {
+    this.key ??= (async () => scryptSync(this.passphrase || await this.generatedKey(), Buffer.from(this.salt, 'base64'), 32))();
+    return this.key;
+  }
+
+  // Fallback key, readable only by the server's user, for deployments without FATHOM_WEBHOOK_ENCRYPTION_KEY
+  private async generatedKey(): Promise<string> {
+    const keyPath = path.join(this.dataDir, 'webhook-secrets.key');
+    try {
+      return (await fs.readFile(keyPath, 'utf8')).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const key = randomBytes(32).toString('base64');
+    await fs.writeFile(keyPath, key, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+    log.warn(`FATHOM_WEBHOOK_ENCRYPTION_KEY is not set - generated ${keyPath}`);
+    return key;
+  }
+
+  private persist(): Promise<void> {
+    const file: RegistryFile = { salt: this.salt, webhooks: Object.fromEntries(this.webhooks) };
+    return this.writer.write(path.join(this.dataDir, 'webhooks.json'), JSON.stringify(file, null, 2));
+  }
+}